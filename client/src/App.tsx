@@ -5,11 +5,13 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import GamePage from "@/pages/game";
+import HistoryPage from "@/pages/history";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={GamePage} />
+      <Route path="/history" component={HistoryPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { LogIn, LogOut, UserRound } from "lucide-react";
+import { ApiError } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+type AuthTab = "login" | "register";
+
+function errorMessage(error: unknown): string | undefined {
+  return error instanceof ApiError ? error.json<{ error?: string }>()?.error : undefined;
+}
+
+// Who is playing, with log in, registration and guest play. `onChange` runs
+// after the account changes, e.g. to reconnect sockets as the new user.
+export function AccountMenu({ onChange }: { onChange?: () => void }) {
+  const { user, login, register, playAsGuest, logout } = useAuth();
+  const [tab, setTab] = useState<AuthTab>();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const { toast } = useToast();
+
+  const done = () => {
+    setTab(undefined);
+    setPassword("");
+    onChange?.();
+  };
+  const failed = (title: string) => (error: unknown) => {
+    toast({ title, description: errorMessage(error), variant: "destructive" });
+  };
+
+  const submit = () => {
+    if (tab === "register") {
+      register.mutate(
+        { username, password, displayName: displayName.trim() || undefined },
+        { onSuccess: done, onError: failed("Could not register") },
+      );
+    } else {
+      login.mutate({ username, password }, { onSuccess: done, onError: failed("Could not log in") });
+    }
+  };
+
+  const pending = login.isPending || register.isPending || playAsGuest.isPending;
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      {user ? (
+        <>
+          <span className="flex items-center gap-1 text-muted-foreground" data-testid="text-account">
+            <UserRound className="w-4 h-4" />
+            {user.displayName}
+            {user.isGuest && " (guest)"}
+          </span>
+          {user.isGuest ? (
+            <Button variant="ghost" size="sm" onClick={() => setTab("register")}>
+              Register
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => logout.mutate(undefined, { onSuccess: onChange, onError: failed("Could not log out") })}
+            >
+              <LogOut className="w-4 h-4" />
+              <span className="sr-only">Log out</span>
+            </Button>
+          )}
+        </>
+      ) : (
+        <Button variant="ghost" size="sm" onClick={() => setTab("login")} data-testid="button-login">
+          <LogIn className="w-4 h-4 mr-1" /> Log in
+        </Button>
+      )}
+
+      <Dialog open={tab !== undefined} onOpenChange={open => !open && setTab(undefined)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{user?.isGuest ? "Keep your games" : "Your account"}</DialogTitle>
+            <DialogDescription>
+              {user?.isGuest
+                ? "Register to keep the games you played as a guest."
+                : "Log in to keep your games across devices."}
+            </DialogDescription>
+          </DialogHeader>
+          <Tabs value={tab} onValueChange={v => setTab(v as AuthTab)}>
+            {!user?.isGuest && (
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="login">Log in</TabsTrigger>
+                <TabsTrigger value="register">Register</TabsTrigger>
+              </TabsList>
+            )}
+            <form
+              className="space-y-4 mt-4"
+              onSubmit={e => {
+                e.preventDefault();
+                submit();
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="account-username">Username</Label>
+                <Input
+                  id="account-username"
+                  autoComplete="username"
+                  value={username}
+                  onChange={e => setUsername(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="account-password">Password</Label>
+                <Input
+                  id="account-password"
+                  type="password"
+                  autoComplete={tab === "register" ? "new-password" : "current-password"}
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                />
+              </div>
+              <TabsContent value="register" className="space-y-2 mt-0">
+                <Label htmlFor="account-display-name">Display name</Label>
+                <Input
+                  id="account-display-name"
+                  placeholder={user?.displayName ?? "Defaults to your username"}
+                  value={displayName}
+                  onChange={e => setDisplayName(e.target.value)}
+                />
+              </TabsContent>
+              <Button type="submit" className="w-full" disabled={pending || !username || !password}>
+                {tab === "register" ? "Register" : "Log in"}
+              </Button>
+            </form>
+          </Tabs>
+          {!user && (
+            <Button
+              variant="ghost"
+              disabled={pending}
+              onClick={() => playAsGuest.mutate(undefined, { onSuccess: done, onError: failed("Could not start as guest") })}
+            >
+              Play as guest
+            </Button>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
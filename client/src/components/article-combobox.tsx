@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Check, ChevronsUpDown, Loader2 } from "lucide-react";
+import type { TitleMatch } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+
+// Article picker backed by /api/titles/search on the chosen wiki. Values use spaces, the way
+// players type titles; the server canonicalizes them when the game starts.
+export function ArticleCombobox({
+  site,
+  value,
+  onChange,
+  placeholder = "Search articles...",
+  "data-testid": testId,
+}: {
+  // Wiki to search; the server's default if unset
+  site?: string;
+  value: string;
+  onChange: (title: string) => void;
+  placeholder?: string;
+  "data-testid"?: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const query = useDebouncedValue(search.trim(), 250);
+
+  const params = new URLSearchParams({ q: query, ...(site ? { site } : {}) });
+  const { data: matches = [], isFetching } = useQuery<TitleMatch[]>({
+    queryKey: [`/api/titles/search?${params}`],
+    enabled: open && query.length > 0,
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) setSearch(value);
+  };
+
+  const select = (title: string) => {
+    onChange(title.replace(/_/g, " "));
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+          data-testid={testId}
+        >
+          <span className={cn("truncate", !value && "text-muted-foreground")}>
+            {value || placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder={placeholder} value={search} onValueChange={setSearch} />
+          <CommandList>
+            {isFetching && matches.length === 0 ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <CommandEmpty>{query ? "No matching articles." : "Start typing a title."}</CommandEmpty>
+            )}
+            {matches.length > 0 && (
+              <CommandGroup>
+                {matches.map(match => (
+                  <CommandItem key={match.title} value={match.title} onSelect={() => select(match.title)}>
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4 shrink-0",
+                        value.replace(/ /g, "_") === match.title ? "opacity-100" : "opacity-0",
+                      )}
+                    />
+                    <div className="min-w-0">
+                      <div className="truncate">{match.title.replace(/_/g, " ")}</div>
+                      {match.description && (
+                        <div className="truncate text-xs text-muted-foreground">{match.description}</div>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {query && !matches.some(match => match.title === query.replace(/ /g, "_")) && (
+              <CommandGroup>
+                <CommandItem value={`use:${query}`} onSelect={() => select(query)}>
+                  <span className="truncate">Use "{query}"</span>
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { ChevronDown, ShieldCheck } from "lucide-react";
+import type { ContentPolicySettings } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+
+function toLines(items?: string[]): string {
+  return (items || []).map(item => item.replace(/_/g, " ")).join("\n");
+}
+
+function fromLines(text: string): string[] {
+  return text.split("\n").map(line => line.trim()).filter(Boolean);
+}
+
+// Host-side editor for a room's additions to the server's content policy.
+// Lists take one title or category per line.
+export function ContentPolicyEditor({
+  value,
+  onSave
+}: {
+  value: ContentPolicySettings;
+  onSave: (settings: ContentPolicySettings) => void;
+}) {
+  const [blockedTitles, setBlockedTitles] = useState(toLines(value.blockedTitles));
+  const [blockedCategories, setBlockedCategories] = useState(toLines(value.blockedCategories));
+  const [allowlistOnly, setAllowlistOnly] = useState(value.allowlist !== undefined);
+  const [allowlist, setAllowlist] = useState(toLines(value.allowlist));
+  const [reject, setReject] = useState(value.enforcement !== "warn");
+
+  const save = () => {
+    onSave({
+      blockedTitles: fromLines(blockedTitles),
+      blockedCategories: fromLines(blockedCategories),
+      allowlist: allowlistOnly ? fromLines(allowlist) : undefined,
+      enforcement: reject ? "reject" : "warn",
+    });
+  };
+
+  return (
+    <Collapsible className="text-left">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-between" data-testid="button-content-policy">
+          <span className="flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4" /> Content restrictions
+          </span>
+          <ChevronDown className="w-4 h-4" />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-2">
+        <div className="space-y-1">
+          <Label>Blocked articles</Label>
+          <Textarea rows={3} value={blockedTitles} onChange={e => setBlockedTitles(e.target.value)} placeholder="One title per line" />
+        </div>
+        <div className="space-y-1">
+          <Label>Blocked categories</Label>
+          <Textarea rows={3} value={blockedCategories} onChange={e => setBlockedCategories(e.target.value)} placeholder="One category per line" />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="allowlist-only">Only allow listed articles</Label>
+          <Switch id="allowlist-only" checked={allowlistOnly} onCheckedChange={setAllowlistOnly} />
+        </div>
+        {allowlistOnly && (
+          <Textarea rows={4} value={allowlist} onChange={e => setAllowlist(e.target.value)} placeholder="One title per line" />
+        )}
+        <div className="flex items-center justify-between">
+          <Label htmlFor="reject-restricted">Refuse restricted manual picks</Label>
+          <Switch id="reject-restricted" checked={reject} onCheckedChange={setReject} />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {reject ? "Restricted articles cannot be used." : "Restricted manual picks are allowed with a warning."}{" "}
+          Server-wide restrictions always apply.
+        </p>
+        <Button size="sm" className="w-full" onClick={save}>
+          Save restrictions
+        </Button>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowRight, CalendarDays, Flame, Loader2, Play } from "lucide-react";
+import type { DailyPuzzle } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+
+function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  const parts = [Math.floor(seconds / 3600), Math.floor(seconds / 60) % 60, seconds % 60];
+  return parts.map(part => part.toString().padStart(2, "0")).join(":");
+}
+
+// Time left until `at`, updated every second; refetches the puzzle once
+// it is reached
+function useCountdown(at: number | undefined): number | undefined {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (at === undefined) return;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= at) {
+        clearInterval(timer);
+        queryClient.invalidateQueries({ queryKey: ["/api/daily"] });
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [at]);
+
+  return at === undefined ? undefined : at - now;
+}
+
+// Today's shared puzzle on the start screen, with the player's streak and
+// the time until the next one. Each account and browser may play it once.
+export function DailyChallengeCard({ onPlay, isLoading }: { onPlay: () => void; isLoading: boolean }) {
+  const { data: puzzle, isLoading: puzzleLoading, isError } = useQuery<DailyPuzzle>({
+    queryKey: ["/api/daily"],
+    // Played state and streak change with every game
+    staleTime: 0,
+  });
+  const timeLeft = useCountdown(puzzle?.nextPuzzleAt);
+
+  if (isError) return null;
+
+  return (
+    <Card className="p-4 text-left space-y-3" data-testid="card-daily">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold flex items-center gap-2">
+          <CalendarDays className="w-4 h-4" /> Daily challenge
+        </h3>
+        {puzzle && (
+          <span className="flex items-center gap-1 text-sm text-muted-foreground" title={`Best streak: ${puzzle.streak.best}`}>
+            <Flame className={`w-4 h-4 ${puzzle.streak.current > 0 ? "text-orange-500" : ""}`} />
+            <span data-testid="text-daily-streak">{puzzle.streak.current}</span>
+          </span>
+        )}
+      </div>
+
+      {puzzleLoading || !puzzle ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <span className="truncate">{puzzle.startArticle.replace(/_/g, " ")}</span>
+            <ArrowRight className="w-4 h-4 shrink-0 text-muted-foreground" />
+            <span className="truncate">{puzzle.targetArticle.replace(/_/g, " ")}</span>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-muted-foreground" data-testid="text-daily-countdown">
+              Next puzzle in {formatCountdown(timeLeft ?? 0)}
+            </span>
+            <Button size="sm" className="gap-1" onClick={onPlay} disabled={isLoading || !!puzzle.playedGameId} data-testid="button-daily">
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              {puzzle.playedGameId ? "Played" : "Play"}
+            </Button>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import type { GameRules, Leaderboard, LeaderboardEntry, LeaderboardPeriod, LeaderboardSort } from "@shared/schema";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+const PERIODS: { value: LeaderboardPeriod; label: string }[] = [
+  { value: "all", label: "All time" },
+  { value: "week", label: "This week" },
+  { value: "day", label: "Today" },
+];
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+function EntryRow({ entry }: { entry: LeaderboardEntry }) {
+  return (
+    <TableRow className={entry.isYou ? "bg-primary/10 font-semibold hover:bg-primary/15" : ""} data-testid={entry.isYou ? "row-your-rank" : undefined}>
+      <TableCell className="w-12 font-mono">{entry.rank}</TableCell>
+      <TableCell className="truncate max-w-[160px]">
+        {entry.name}
+        {entry.isYou && " (you)"}
+      </TableCell>
+      <TableCell className="text-right font-mono">{entry.clicks}</TableCell>
+      <TableCell className="text-right font-mono">{formatDuration(entry.durationMs)}</TableCell>
+    </TableRow>
+  );
+}
+
+// Best wins on a pair under the same rules, with the player's own rank
+// highlighted. `gameId` marks the game just played as the player's. With
+// `puzzleDate`, the board of that day's daily challenge instead.
+export function PairLeaderboard({
+  site,
+  targetSite,
+  startArticle,
+  targetArticle,
+  rules,
+  gameId,
+  puzzleDate
+}: {
+  site: string;
+  targetSite: string;
+  startArticle: string;
+  targetArticle: string;
+  rules: GameRules;
+  gameId?: string;
+  puzzleDate?: string;
+}) {
+  const [sort, setSort] = useState<LeaderboardSort>("clicks");
+  const [period, setPeriod] = useState<LeaderboardPeriod>("all");
+
+  const params = new URLSearchParams(
+    puzzleDate
+      ? { date: puzzleDate, sort }
+      : {
+          site,
+          targetSite,
+          start: startArticle,
+          target: targetArticle,
+          timeLimitSeconds: String(rules.timeLimitSeconds),
+          scoutingAllowed: String(rules.scoutingAllowed),
+          sort,
+          period,
+        },
+  );
+  if (gameId) params.set("game", gameId);
+  const { data, isLoading } = useQuery<Leaderboard>({
+    queryKey: [`${puzzleDate ? "/api/daily/leaderboard" : "/api/leaderboard"}?${params}`],
+    // Other players keep finishing
+    staleTime: 0,
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Tabs value={sort} onValueChange={v => setSort(v as LeaderboardSort)}>
+          <TabsList>
+            <TabsTrigger value="clicks">Fewest clicks</TabsTrigger>
+            <TabsTrigger value="time">Fastest</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        {!puzzleDate && (
+          <Tabs value={period} onValueChange={v => setPeriod(v as LeaderboardPeriod)}>
+            <TabsList>
+              {PERIODS.map(({ value, label }) => (
+                <TabsTrigger key={value} value={value} className="text-xs">
+                  {label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : !data?.entries.length ? (
+        <p className="text-sm text-muted-foreground text-center py-4">{puzzleDate ? "No wins on this puzzle yet." : "No wins on this pair yet."}</p>
+      ) : (
+        <div className="max-h-60 overflow-auto rounded border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Player</TableHead>
+                <TableHead className="text-right">Clicks</TableHead>
+                <TableHead className="text-right">Time</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.entries.map(entry => (
+                <EntryRow key={`${entry.rank}-${entry.name}-${entry.finishedAt}`} entry={entry} />
+              ))}
+              {data.you && (
+                <>
+                  <TableRow className="hover:bg-transparent">
+                    <TableCell colSpan={4} className="text-center text-muted-foreground py-1">…</TableCell>
+                  </TableRow>
+                  <EntryRow entry={data.you} />
+                </>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+      {data && data.total > 0 && (
+        <p className="text-xs text-muted-foreground text-right">
+          {data.total} {data.total === 1 ? "player" : "players"}
+        </p>
+      )}
+    </div>
+  );
+}
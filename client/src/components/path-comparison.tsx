@@ -0,0 +1,135 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ShortestPathResult } from "@shared/schema";
+import { isSameTitle } from "@shared/titles";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { Skeleton } from "@/components/ui/skeleton";
+
+// Index of the first step where the two routes stop agreeing
+function divergenceIndex(a: string[], b: string[]): number {
+  let i = 0;
+  while (i < a.length && i < b.length && isSameTitle(a[i], b[i])) i++;
+  return i;
+}
+
+// Of several optimal routes, the one that follows the player the longest
+function closestPath(paths: string[][], playerPath: string[]): string[] {
+  return paths.reduce((best, path) =>
+    divergenceIndex(path, playerPath) > divergenceIndex(best, playerPath) ? path : best,
+  );
+}
+
+function Route({
+  label,
+  path,
+  divergeAt,
+  highlightClass
+}: {
+  label: string;
+  path: string[];
+  divergeAt: number;
+  highlightClass: string;
+}) {
+  return (
+    <div className="min-w-0">
+      <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2">
+        {label} ({path.length - 1})
+      </h4>
+      <ol className="space-y-1 text-sm">
+        {path.map((article, index) => (
+          <li
+            key={index}
+            className={cn(
+              "truncate rounded px-1",
+              index >= divergeAt && highlightClass,
+              index === divergeAt && "border-l-2 border-current",
+            )}
+          >
+            {index + 1}. {article.replace(/_/g, " ")}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+// Player's route next to an optimal one from /api/path/shortest. Steps after
+// the point where the routes split are highlighted on both sides. The
+// server only shows routes to the finished game `articleToken` is for.
+export function PathComparison({
+  site,
+  startArticle,
+  targetArticle,
+  playerPath,
+  reachedTarget,
+  articleToken
+}: {
+  site: string;
+  startArticle: string;
+  targetArticle: string;
+  playerPath: string[];
+  reachedTarget: boolean;
+  articleToken?: string;
+}) {
+  const params = new URLSearchParams({ from: startArticle, to: targetArticle, site });
+  const { data, isLoading, isError } = useQuery<ShortestPathResult>({
+    queryKey: [`/api/path/shortest?${params}`],
+    queryFn: async ({ queryKey }) => {
+      const res = await apiRequest("GET", queryKey.join("/"), undefined, { "X-Game-Token": articleToken ?? "" });
+      return res.json();
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="grid grid-cols-2 gap-4">
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-24 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return <p className="text-sm text-muted-foreground">Could not load the optimal route.</p>;
+  }
+
+  if (data.status === "not_found") {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-optimal-not-found">
+        {data.reason === "budget"
+          ? "The solver gave up before finding a route between these articles."
+          : "No route between these articles was found within the search depth."}
+      </p>
+    );
+  }
+
+  const optimal = closestPath(data.paths, playerPath);
+  const divergeAt = divergenceIndex(optimal, playerPath);
+  const clicks = playerPath.length - 1;
+
+  return (
+    <div className="space-y-3">
+      {reachedTarget && clicks > 0 && (
+        <div className="text-sm text-center" data-testid="text-efficiency">
+          Efficiency:{" "}
+          <span className="font-mono font-bold">{Math.round((data.distance / clicks) * 100)}%</span>
+          <span className="text-muted-foreground"> ({data.distance} optimal / {clicks} yours)</span>
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-4 max-h-[240px] overflow-auto">
+        <Route
+          label="Your route"
+          path={playerPath}
+          divergeAt={divergeAt}
+          highlightClass="text-amber-600 dark:text-amber-400"
+        />
+        <Route
+          label="Optimal route"
+          path={optimal}
+          divergeAt={divergeAt}
+          highlightClass="text-green-600 dark:text-green-400"
+        />
+      </div>
+    </div>
+  );
+}
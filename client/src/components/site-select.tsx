@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { SitesResponse } from "@shared/schema";
+import { SITE_PRESETS } from "@shared/sites";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const OTHER = "other";
+
+// Picks the wiki a game is played on: a Wikipedia edition from the presets,
+// any other language code, or a MediaWiki URL when the server allows them.
+// Undefined means the server's default site.
+export function SiteSelect({
+  label = "Wiki",
+  value,
+  onChange
+}: {
+  label?: string;
+  value: string | undefined;
+  onChange: (site: string | undefined) => void;
+}) {
+  const { data: sites } = useQuery<SitesResponse>({ queryKey: ["/api/sites"] });
+  const defaultSite = sites?.defaultSite ?? "en";
+  const selected = value ?? defaultSite;
+  const isPreset = SITE_PRESETS.some(preset => preset.id === selected);
+  const [showOther, setShowOther] = useState(!isPreset);
+
+  return (
+    <div className="space-y-2 text-left">
+      <Label>{label}</Label>
+      <Select
+        value={showOther || !isPreset ? OTHER : selected}
+        onValueChange={(v) => {
+          setShowOther(v === OTHER);
+          if (v !== OTHER) onChange(v === defaultSite ? undefined : v);
+        }}
+      >
+        <SelectTrigger data-testid="select-site">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SITE_PRESETS.map(({ id, label }) => (
+            <SelectItem key={id} value={id}>
+              {label} <span className="text-muted-foreground">· {id}.wikipedia.org</span>
+            </SelectItem>
+          ))}
+          <SelectItem value={OTHER}>Other…</SelectItem>
+        </SelectContent>
+      </Select>
+      {(showOther || !isPreset) && (
+        <Input
+          value={isPreset ? "" : selected}
+          onChange={e => onChange(e.target.value.trim() || undefined)}
+          placeholder={sites?.allowCustom ? "Language code or https://wiki.example.org" : "Language code, e.g. fi"}
+          data-testid="input-site"
+        />
+      )}
+    </div>
+  );
+}
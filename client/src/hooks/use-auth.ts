@@ -0,0 +1,45 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Credentials, PublicUser, RegisterRequest } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+
+const USER_KEY = ["/api/auth/user"];
+
+function setUser(user: PublicUser | null) {
+  queryClient.setQueryData(USER_KEY, user);
+}
+
+// The account of this browser session: null when logged out, undefined
+// while loading
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: USER_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const login = useMutation({
+    mutationFn: async (credentials: Credentials) =>
+      (await (await apiRequest("POST", "/api/auth/login", credentials)).json()) as PublicUser,
+    onSuccess: setUser,
+  });
+
+  // Registering as a guest keeps the guest's history
+  const register = useMutation({
+    mutationFn: async (request: RegisterRequest) =>
+      (await (await apiRequest("POST", "/api/auth/register", request)).json()) as PublicUser,
+    onSuccess: setUser,
+  });
+
+  const playAsGuest = useMutation({
+    mutationFn: async () => (await (await apiRequest("POST", "/api/auth/guest")).json()) as PublicUser,
+    onSuccess: setUser,
+  });
+
+  const logout = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => setUser(null),
+  });
+
+  return { user, isLoading, login, register, playAsGuest, logout };
+}
@@ -1,9 +1,25 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+export class ApiError extends Error {
+  constructor(public status: number, public body: string) {
+    super(`${status}: ${body}`);
+    this.name = "ApiError";
+  }
+
+  // Parsed JSON error body, if the server sent one
+  json<T>(): T | undefined {
+    try {
+      return JSON.parse(this.body) as T;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new ApiError(res.status, text);
   }
 }
 
@@ -11,10 +27,11 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers: Record<string, string> = {},
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { "Content-Type": "application/json", ...headers } : headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -1,8 +1,24 @@
 import "@/wiki-layout.css";
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Article, GameState, NewGameResponse } from "@shared/schema";
+import { queryClient, apiRequest, ApiError } from "@/lib/queryClient";
+import type {
+  Article,
+  ArticleIssue,
+  ContentPolicySettings,
+  Difficulty,
+  GameMode,
+  GameSession,
+  GameState,
+  LanguageLink,
+  MoveError,
+  NewGameError,
+  NewGameResponse,
+  PairResponse,
+  PathStep,
+  SitesResponse,
+} from "@shared/schema";
+import { siteLabel } from "@shared/sites";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -18,6 +34,8 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import {
   Clock,
   MousePointerClick,
@@ -37,11 +55,23 @@ import {
   User,
   Gamepad2,
   Undo2,
-  AlertCircle
+  AlertCircle,
+  Languages,
+  History,
+  Medal
 } from "lucide-react";
+import { Link } from "wouter";
 import { useTheme } from "@/components/theme-provider";
+import { ArticleCombobox } from "@/components/article-combobox";
+import { PathComparison } from "@/components/path-comparison";
+import { ContentPolicyEditor } from "@/components/content-policy-editor";
+import { SiteSelect } from "@/components/site-select";
+import { AccountMenu } from "@/components/account-menu";
+import { PairLeaderboard } from "@/components/leaderboard";
+import { DailyChallengeCard } from "@/components/daily-challenge";
 import { io } from "socket.io-client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 
 // Initialize socket outside component
 const socket = io({ path: "/socket.io", autoConnect: false });
@@ -69,11 +99,30 @@ function ModeToggle() {
 
 interface LobbyState {
   roomId: string;
+  // This client's id in the room: its account id, or the socket id without one
+  playerId: string;
   isHost: boolean;
   isOpen: boolean;
   players: { id: string; name: string }[];
 }
 
+// Choices on the start screen that shape which pair the server picks
+interface GameSettings {
+  site?: string;
+  // Set for a cross-language game
+  targetSite?: string;
+  difficulty?: Difficulty;
+  // Casual play: articles may be read before they are reached
+  scoutingAllowed?: boolean;
+}
+
+// Articles differ per wiki and per game's pinned time, so both are part of
+// the query key
+function articleQueryKey(site: string, title: string, pinnedAt: number): string[] {
+  const params = new URLSearchParams({ site, at: pinnedAt.toString() });
+  return ["/api/article", `${encodeURIComponent(title)}?${params}`];
+}
+
 interface OpponentState {
   id: string;
   name: string;
@@ -82,34 +131,188 @@ interface OpponentState {
   isWinner: boolean;
 }
 
+// Inline explanation for a rejected manual article, with clickable suggestions
+function ArticleIssueMessage({
+  issue,
+  onPick
+}: {
+  issue?: ArticleIssue;
+  onPick: (title: string) => void;
+}) {
+  if (!issue) return null;
+
+  return (
+    <div className="text-sm space-y-1" data-testid="text-article-issue">
+      <div className="flex items-center gap-1 text-destructive">
+        <AlertCircle className="w-3 h-3 shrink-0" /> {issue.message}
+      </div>
+      {issue.suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-muted-foreground">
+          Did you mean:
+          {issue.suggestions.map(suggestion => (
+            <Button
+              key={suggestion}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => onPick(suggestion.replace(/_/g, " "))}
+            >
+              {suggestion.replace(/_/g, " ")}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const DIFFICULTIES: { value: Difficulty | "any"; label: string; description: string }[] = [
+  { value: "any", label: "Any", description: "Two unrelated random articles" },
+  { value: "easy", label: "Easy", description: "1-2 clicks to a well-known article" },
+  { value: "medium", label: "Medium", description: "2-3 clicks" },
+  { value: "hard", label: "Hard", description: "3-4 clicks" },
+  { value: "expert", label: "Expert", description: "4+ clicks to an obscure article" },
+];
+
+function DifficultySelect({
+  value,
+  onChange
+}: {
+  value: Difficulty | undefined;
+  onChange: (difficulty: Difficulty | undefined) => void;
+}) {
+  return (
+    <div className="space-y-2 text-left">
+      <Label>Difficulty</Label>
+      <Select
+        value={value ?? "any"}
+        onValueChange={(v) => onChange(v === "any" ? undefined : (v as Difficulty))}
+      >
+        <SelectTrigger data-testid="select-difficulty">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {DIFFICULTIES.map(({ value, label, description }) => (
+            <SelectItem key={value} value={value}>
+              {label} <span className="text-muted-foreground">· {description}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// Wiki for the game, and optionally a second edition the target is read in
+function SiteChoice({
+  site,
+  onSiteChange,
+  crossLanguage,
+  onCrossLanguageChange,
+  targetSite,
+  onTargetSiteChange
+}: {
+  site: string | undefined;
+  onSiteChange: (site: string | undefined) => void;
+  crossLanguage: boolean;
+  onCrossLanguageChange: (crossLanguage: boolean) => void;
+  targetSite: string | undefined;
+  onTargetSiteChange: (site: string | undefined) => void;
+}) {
+  return (
+    <div className="space-y-3">
+      <SiteSelect label={crossLanguage ? "Start wiki" : "Wiki"} value={site} onChange={onSiteChange} />
+      <div className="flex items-center justify-between text-left">
+        <Label htmlFor="cross-language">Target in another language</Label>
+        <Switch id="cross-language" checked={crossLanguage} onCheckedChange={onCrossLanguageChange} />
+      </div>
+      {crossLanguage && (
+        <>
+          <SiteSelect label="Target wiki" value={targetSite} onChange={onTargetSiteChange} />
+          <p className="text-xs text-muted-foreground text-left">
+            Switch editions through each article's language links.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Casual play: lets players read articles before reaching them
+function ScoutingSwitch({
+  checked,
+  onCheckedChange
+}: {
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between text-left">
+      <Label htmlFor="allow-scouting">
+        Allow scouting <span className="text-muted-foreground font-normal">· read ahead, casual play</span>
+      </Label>
+      <Switch id="allow-scouting" checked={checked} onCheckedChange={onCheckedChange} />
+    </div>
+  );
+}
+
 // Start Screen Component
 function StartScreen({
   onStart,
   isLoading,
   lobbyState,
   setLobbyState,
-  initialView
+  initialView,
+  setupErrors
 }: {
-  onStart: (start?: string, target?: string, mode?: "random" | "manual" | "multiplayer") => void;
+  onStart: (start?: string, target?: string, mode?: GameMode, settings?: GameSettings) => void;
   isLoading: boolean;
   lobbyState: LobbyState;
   setLobbyState: React.Dispatch<React.SetStateAction<LobbyState>>;
   initialView?: "main" | "single" | "multi";
+  setupErrors?: NewGameError["fields"];
 }) {
   const [view, setView] = useState<"main" | "single" | "multi">(initialView || "main");
   const [singleMode, setSingleMode] = useState<"random" | "manual">("random");
   const [startArticle, setStartArticle] = useState("");
   const [targetArticle, setTargetArticle] = useState("");
+  const [difficulty, setDifficulty] = useState<Difficulty>();
+  const [site, setSite] = useState<string>();
+  const [crossLanguage, setCrossLanguage] = useState(false);
+  const [scoutingAllowed, setScoutingAllowed] = useState(false);
+  const [targetSiteChoice, setTargetSiteChoice] = useState<string>();
+  const { data: sites } = useQuery<SitesResponse>({ queryKey: ["/api/sites"] });
+  const targetSite = crossLanguage ? targetSiteChoice ?? sites?.defaultSite : undefined;
   const [username, setUsername] = useState("");
+  const [lobbyErrors, setLobbyErrors] = useState<NewGameError["fields"]>();
+  const [roomPolicy, setRoomPolicy] = useState<ContentPolicySettings>({});
 
   const [joinRoomId, setJoinRoomId] = useState("");
   const { toast } = useToast();
+  const { user } = useAuth();
+
+  // Sockets learn their account at the handshake, so a login needs a new one
+  const reconnectSocket = useCallback(() => {
+    socket.disconnect().connect();
+  }, []);
 
   useEffect(() => {
     socket.connect();
 
-    socket.on("game_started", ({ start, target }) => {
-      onStart(start, target, "multiplayer");
+    // The server pins the round's articles to the time it started
+    socket.on("game_started", ({ start, target, site, targetSite, scoutingAllowed, warnings }: {
+      start: string;
+      target: string;
+      site: string;
+      targetSite: string;
+      scoutingAllowed: boolean;
+      warnings?: string[];
+    }) => {
+      if (warnings?.length) {
+        toast({ title: "Restricted article", description: warnings.join(" ") });
+      }
+      onStart(start, target, "multiplayer", { site, targetSite, scoutingAllowed });
     });
 
     socket.on("player_joined", ({ players }: { players: { id: string; name: string }[] }) => {
@@ -132,33 +335,38 @@ function StartScreen({
   const handleSingleStart = () => {
     if (singleMode === "manual") {
       if (!startArticle || !targetArticle) return;
-      onStart(startArticle, targetArticle, "manual");
+      onStart(startArticle, targetArticle, "manual", { site, targetSite, scoutingAllowed });
     } else {
-      onStart(undefined, undefined, "random");
+      onStart(undefined, undefined, "random", {
+        site,
+        targetSite,
+        difficulty: crossLanguage ? undefined : difficulty,
+        scoutingAllowed,
+      });
     }
   };
 
   const createRoom = () => {
-    if (!username.trim()) {
+    if (!username.trim() && !user) {
       toast({ title: "Please enter a username", variant: "destructive" });
       return;
     }
     socket.emit("create_room", { username }, (response: any) => {
       if (response.roomId) {
-        setLobbyState({ roomId: response.roomId, isHost: true, isOpen: true, players: response.players || [] });
+        setLobbyState({ roomId: response.roomId, playerId: response.playerId, isHost: true, isOpen: true, players: response.players || [] });
       }
     });
   };
 
   const joinRoom = () => {
     if (!joinRoomId) return;
-    if (!username.trim()) {
+    if (!username.trim() && !user) {
       toast({ title: "Please enter a username", variant: "destructive" });
       return;
     }
     socket.emit("join_room", { roomId: joinRoomId, username }, (response: any) => {
       if (response.success) {
-        setLobbyState({ roomId: joinRoomId, isHost: false, isOpen: true, players: response.players || [] });
+        setLobbyState({ roomId: joinRoomId, playerId: response.playerId, isHost: false, isOpen: true, players: response.players || [] });
       } else {
         toast({
           title: "Error joining room",
@@ -170,16 +378,53 @@ function StartScreen({
   };
 
   const startMultiplayerGame = () => {
-    if (singleMode === "manual") {
-      if (!startArticle || !targetArticle) return;
-      socket.emit("start_game", { roomId: lobbyState.roomId, start: startArticle, target: targetArticle });
-    } else {
-      apiRequest("POST", "/api/game/new", { startArticle: undefined, targetArticle: undefined })
-        .then(res => res.json())
-        .then((data: NewGameResponse) => {
-          socket.emit("start_game", { roomId: lobbyState.roomId, start: data.startArticle, target: data.targetArticle });
-        });
-    }
+    if (singleMode === "manual" && (!startArticle || !targetArticle)) return;
+    // Manual titles also go through the server so every player gets canonical titles
+    const body = singleMode === "manual"
+      ? { startArticle, targetArticle }
+      : { difficulty: crossLanguage ? undefined : difficulty };
+    setLobbyErrors(undefined);
+    apiRequest("POST", "/api/game/new", { ...body, site, targetSite, roomId: lobbyState.roomId, pairOnly: true })
+      .then(res => res.json())
+      .then((data: PairResponse) => {
+        socket.emit(
+          "start_game",
+          {
+            roomId: lobbyState.roomId,
+            start: data.startArticle,
+            target: data.targetArticle,
+            site: data.site,
+            targetSite: data.targetSite,
+            scoutingAllowed,
+          },
+          (response: { error?: string; fields?: NewGameError["fields"] }) => {
+            if (response.fields) {
+              setLobbyErrors(response.fields);
+            } else if (response.error) {
+              toast({ title: "Failed to start game", description: response.error, variant: "destructive" });
+            }
+          },
+        );
+      })
+      .catch((error) => {
+        const details = error instanceof ApiError ? error.json<Partial<NewGameError>>() : undefined;
+        if (details?.fields) {
+          setLobbyErrors(details.fields);
+        } else {
+          toast({ title: "Failed to start game", description: details?.error, variant: "destructive" });
+        }
+      });
+  };
+
+  const saveRoomPolicy = (contentPolicy: ContentPolicySettings) => {
+    socket.emit("update_room_settings", { roomId: lobbyState.roomId, contentPolicy }, (response: { error?: string }) => {
+      if (response.error) {
+        toast({ title: "Could not save restrictions", description: response.error, variant: "destructive" });
+      } else {
+        setRoomPolicy(contentPolicy);
+        toast({ title: "Content restrictions saved" });
+      }
+    });
   };
 
   const copyRoomId = () => {
@@ -218,8 +463,8 @@ function StartScreen({
                 {lobbyState.players.map((p) => (
                   <li key={p.id} className="flex items-center justify-center gap-2 text-sm">
                     <User className="w-3 h-3" />
-                    <span className={p.id === socket.id ? "font-bold" : ""}>
-                      {p.name} {p.id === socket.id && "(You)"}
+                    <span className={p.id === lobbyState.playerId ? "font-bold" : ""}>
+                      {p.name} {p.id === lobbyState.playerId && "(You)"}
                     </span>
                   </li>
                 ))}
@@ -238,6 +483,14 @@ function StartScreen({
             {lobbyState.isHost ? (
               <div className="space-y-4">
                 <h3 className="font-semibold">Game Settings</h3>
+                <SiteChoice
+                  site={site}
+                  onSiteChange={setSite}
+                  crossLanguage={crossLanguage}
+                  onCrossLanguageChange={setCrossLanguage}
+                  targetSite={targetSite}
+                  onTargetSiteChange={setTargetSiteChoice}
+                />
                 <Tabs defaultValue="random" onValueChange={(v) => setSingleMode(v as "random" | "manual")}>
                   <TabsList className="grid w-full grid-cols-2">
                     <TabsTrigger value="random">Random</TabsTrigger>
@@ -246,12 +499,21 @@ function StartScreen({
 
                   <TabsContent value="manual" className="space-y-2 text-left mt-2">
                     <Label>Start Article</Label>
-                    <Input value={startArticle} onChange={e => setStartArticle(e.target.value)} placeholder="Start Article" />
+                    <ArticleCombobox site={site} value={startArticle} onChange={setStartArticle} placeholder="Start Article" />
+                    <ArticleIssueMessage issue={lobbyErrors?.startArticle} onPick={setStartArticle} />
                     <Label>Target Article</Label>
-                    <Input value={targetArticle} onChange={e => setTargetArticle(e.target.value)} placeholder="Target Article" />
+                    <ArticleCombobox site={targetSite ?? site} value={targetArticle} onChange={setTargetArticle} placeholder="Target Article" />
+                    <ArticleIssueMessage issue={lobbyErrors?.targetArticle} onPick={setTargetArticle} />
+                  </TabsContent>
+
+                  <TabsContent value="random" className="mt-2">
+                    {!crossLanguage && <DifficultySelect value={difficulty} onChange={setDifficulty} />}
                   </TabsContent>
                 </Tabs>
 
+                <ScoutingSwitch checked={scoutingAllowed} onCheckedChange={setScoutingAllowed} />
+                <ContentPolicyEditor value={roomPolicy} onSave={saveRoomPolicy} />
+
                 <Button className="w-full" onClick={startMultiplayerGame} disabled={lobbyState.players.length < 2 || (singleMode === "manual" && (!startArticle || !targetArticle))}>
                   Start Game
                 </Button>
@@ -278,7 +540,10 @@ function StartScreen({
           ) : (
             <div className="w-10"></div>
           )}
-          <ModeToggle />
+          <div className="flex items-center gap-2">
+            <AccountMenu onChange={reconnectSocket} />
+            <ModeToggle />
+          </div>
         </div>
 
         <div className="text-center space-y-6">
@@ -293,6 +558,7 @@ function StartScreen({
 
           {view === "main" && (
             <div className="grid grid-cols-1 gap-4 mt-8">
+              <DailyChallengeCard onPlay={() => onStart(undefined, undefined, "daily")} isLoading={isLoading} />
               <Button size="lg" className="h-20 text-xl gap-4" onClick={() => setView("single")}>
                 <User className="w-8 h-8" />
                 1 Player
@@ -301,11 +567,25 @@ function StartScreen({
                 <Users className="w-8 h-8" />
                 Multiplayer
               </Button>
+              <Link href="/history" asChild>
+                <Button variant="ghost" className="w-full gap-2" data-testid="link-history">
+                  <History className="w-4 h-4" /> Your games
+                </Button>
+              </Link>
             </div>
           )}
 
           {view === "single" && (
             <div className="space-y-6">
+              <SiteChoice
+                site={site}
+                onSiteChange={setSite}
+                crossLanguage={crossLanguage}
+                onCrossLanguageChange={setCrossLanguage}
+                targetSite={targetSite}
+                onTargetSiteChange={setTargetSiteChoice}
+              />
+              <ScoutingSwitch checked={scoutingAllowed} onCheckedChange={setScoutingAllowed} />
               <Tabs defaultValue="random" onValueChange={(v) => setSingleMode(v as "random" | "manual")}>
                 <TabsList className="grid w-full grid-cols-2">
                   <TabsTrigger value="random">Random Mode</TabsTrigger>
@@ -315,6 +595,7 @@ function StartScreen({
                 <TabsContent value="random" className="mt-4">
                   <div className="space-y-4 text-left">
                     <p className="text-muted-foreground">Start with random articles.</p>
+                    {!crossLanguage && <DifficultySelect value={difficulty} onChange={setDifficulty} />}
                     <Button size="lg" className="w-full gap-2" onClick={handleSingleStart} disabled={isLoading}>
                       {isLoading ? <Loader2 className="animate-spin" /> : <Play />} Start Game
                     </Button>
@@ -324,11 +605,13 @@ function StartScreen({
                 <TabsContent value="manual" className="mt-4 space-y-4">
                   <div className="space-y-2 text-left">
                     <Label>Start Article</Label>
-                    <Input value={startArticle} onChange={e => setStartArticle(e.target.value)} />
+                    <ArticleCombobox site={site} value={startArticle} onChange={setStartArticle} data-testid="input-start-article" />
+                    <ArticleIssueMessage issue={setupErrors?.startArticle} onPick={setStartArticle} />
                   </div>
                   <div className="space-y-2 text-left">
                     <Label>Target Article</Label>
-                    <Input value={targetArticle} onChange={e => setTargetArticle(e.target.value)} />
+                    <ArticleCombobox site={targetSite ?? site} value={targetArticle} onChange={setTargetArticle} data-testid="input-target-article" />
+                    <ArticleIssueMessage issue={setupErrors?.targetArticle} onPick={setTargetArticle} />
                   </div>
                   <Button size="lg" className="w-full gap-2" onClick={handleSingleStart} disabled={isLoading || !startArticle || !targetArticle}>
                     {isLoading ? <Loader2 className="animate-spin" /> : <Play />} Start Game
@@ -342,7 +625,7 @@ function StartScreen({
             <div className="space-y-4 mt-8">
               <div className="text-left space-y-2">
                 <Label>Your Name</Label>
-                <Input placeholder="Enter your username" value={username} onChange={e => setUsername(e.target.value)} />
+                <Input placeholder={user?.displayName ?? "Enter your username"} value={username} onChange={e => setUsername(e.target.value)} />
               </div>
               <div className="h-4"></div>
 
@@ -377,7 +660,7 @@ function WikiSidebar({
   onBackToMenu,
   onNewGame
 }: {
-  path: string[];
+  path: PathStep[];
   gameState: GameState | null;
   onBackToMenu: () => void;
   onNewGame: () => void;
@@ -401,6 +684,11 @@ function WikiSidebar({
             <div className="text-xs space-y-1">
               <div>Start: <span className="font-semibold">{gameState.startArticle.replace(/_/g, " ")}</span></div>
               <div>Target: <span className="font-semibold">{gameState.targetArticle.replace(/_/g, " ")}</span></div>
+              {gameState.site !== gameState.targetSite && (
+                <div>
+                  Languages: <span className="font-semibold">{siteLabel(gameState.site)} → {siteLabel(gameState.targetSite)}</span>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -410,9 +698,12 @@ function WikiSidebar({
             <div className="text-xs text-muted-foreground uppercase mb-2">History ({path.length})</div>
             <ScrollArea className="h-[300px] w-full pr-2">
               <div className="space-y-1">
-                {path.map((p, i) => (
+                {path.map((step, i) => (
                   <div key={i} className={`text-xs truncate ${i === path.length - 1 ? "font-bold" : "text-muted-foreground"}`}>
-                    {i + 1}. {p.replace(/_/g, " ")}
+                    {i + 1}. {step.title.replace(/_/g, " ")}
+                    {gameState && gameState.site !== gameState.targetSite && (
+                      <span className="ml-1 font-mono uppercase text-[10px]">{step.site}</span>
+                    )}
                   </div>
                 ))}
               </div>
@@ -474,7 +765,7 @@ function UserInfoBox({
           </div>
           <div className="p-2 space-y-2 max-h-[300px] overflow-auto">
             {lobbyState.players
-              .filter(p => p.id !== socket.id)
+              .filter(p => p.id !== lobbyState.playerId)
               .map(p => {
                 const stat = opponents[p.id];
                 return (
@@ -502,6 +793,38 @@ function UserInfoBox({
   );
 }
 
+// Interlanguage links, offered only in cross-language games. Following one
+// counts as a click like any other link.
+function LanguageLinks({
+  links,
+  onLinkClick
+}: {
+  links: LanguageLink[];
+  onLinkClick: (title: string, site: string) => void;
+}) {
+  if (links.length === 0) {
+    return <div className="text-sm text-muted-foreground px-1 py-2">No other languages for this article.</div>;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 py-2" data-testid="list-language-links">
+      <Languages className="w-4 h-4 text-muted-foreground mr-1" />
+      {links.map(link => (
+        <Button
+          key={link.site}
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          title={link.title.replace(/_/g, " ")}
+          onClick={() => onLinkClick(link.title, link.site)}
+        >
+          {link.label || siteLabel(link.site)}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
 function ArticleContent({
   article,
   onLinkClick,
@@ -510,7 +833,7 @@ function ArticleContent({
   title
 }: {
   article: Article | undefined;
-  onLinkClick: (title: string) => void;
+  onLinkClick: (title: string, site?: string) => void;
   isLoading: boolean;
   gameState: GameState | null;
   title: string;
@@ -557,6 +880,9 @@ function ArticleContent({
               <div className="wiki-tab text-sm text-blue-600">View history</div>
             </div>
           </div>
+          {article && gameState && gameState.site !== gameState.targetSite && (
+            <LanguageLinks links={article.languageLinks ?? []} onLinkClick={onLinkClick} />
+          )}
         </div>
       </div>
 
@@ -577,6 +903,7 @@ function WinModal({
   onClose,
   isMultiplayer = false,
   message,
+  articleToken,
 }: {
   isOpen: boolean;
   gameState: GameState;
@@ -585,10 +912,11 @@ function WinModal({
   onClose: () => void;
   isMultiplayer?: boolean;
   message?: string;
+  articleToken?: string;
 }) {
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-2xl">
             <Trophy className="w-6 h-6 text-yellow-500" />
@@ -610,7 +938,7 @@ function WinModal({
           </DialogDescription>
         </DialogHeader>
 
-        <div className="grid grid-cols-2 gap-4 py-4">
+        <div className="grid grid-cols-2 gap-4 pt-4">
           <Card className="p-4 text-center">
             <div className="text-3xl font-bold font-mono" data-testid="text-final-clicks">
               {gameState.clicks}
@@ -619,15 +947,44 @@ function WinModal({
           </Card>
           <Card className="p-4 text-center">
             <div className="text-3xl font-bold font-mono" data-testid="text-final-time">
-              {formatTime(180 - timeLeft)}
+              {formatTime(gameState.rules.timeLimitSeconds - timeLeft)}
             </div>
             <div className="text-sm text-muted-foreground">Time</div>
           </Card>
         </div>
+        <p className="text-xs text-muted-foreground pb-2" data-testid="text-pinned-at">
+          Articles as of {new Date(gameState.pinnedAt).toLocaleString()}
+        </p>
+
+        {gameState.site === gameState.targetSite && (
+          <PathComparison
+            site={gameState.site}
+            startArticle={gameState.startArticle}
+            targetArticle={gameState.targetArticle}
+            playerPath={gameState.path.map(step => step.title)}
+            reachedTarget
+            articleToken={articleToken}
+          />
+        )}
+
+        <div className="space-y-2">
+          <h3 className="font-semibold flex items-center gap-2">
+            <Medal className="w-4 h-4" /> Leaderboard
+          </h3>
+          <PairLeaderboard
+            site={gameState.site}
+            targetSite={gameState.targetSite}
+            startArticle={gameState.startArticle}
+            targetArticle={gameState.targetArticle}
+            rules={gameState.rules}
+            gameId={gameState.id}
+            puzzleDate={gameState.puzzleDate}
+          />
+        </div>
 
         <Button onClick={onNewGame} className="w-full gap-2 mt-2" data-testid="button-play-again">
           <RotateCcw className="w-4 h-4" />
-          {isMultiplayer ? "Back to Lobby" : "Play Again"}
+          {isMultiplayer ? "Back to Lobby" : gameState.puzzleDate ? "Back to Menu" : "Play Again"}
         </Button>
       </DialogContent>
     </Dialog>
@@ -643,6 +1000,7 @@ function LoseModal({
   isMultiplayer = false,
   winnerPath,
   winnerName,
+  articleToken,
 }: {
   isOpen: boolean;
   gameState: GameState;
@@ -652,10 +1010,11 @@ function LoseModal({
   isMultiplayer?: boolean;
   winnerPath?: string[];
   winnerName?: string;
+  articleToken?: string;
 }) {
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-md max-h-[80vh] overflow-hidden flex flex-col">
+      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-hidden flex flex-col">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-2xl">
             <Frown className="w-6 h-6 text-red-500" />
@@ -686,6 +1045,19 @@ function LoseModal({
           </div>
         )}
 
+        {gameState.site === gameState.targetSite && (
+          <div className="py-2 overflow-auto">
+            <PathComparison
+              site={gameState.site}
+              startArticle={gameState.startArticle}
+              targetArticle={gameState.targetArticle}
+              playerPath={gameState.path.map(step => step.title)}
+              reachedTarget={false}
+              articleToken={articleToken}
+            />
+          </div>
+        )}
+
         <Button onClick={onNewGame} className="w-full gap-2 mt-2">
           <RotateCcw className="w-4 h-4" />
           {isMultiplayer ? "Back to Lobby" : "Select Mode"}
@@ -702,35 +1074,66 @@ export default function GamePage() {
   const [showLoseModal, setShowLoseModal] = useState(false);
 
   // Track game mode
-  const [gameMode, setGameMode] = useState<"random" | "manual" | "multiplayer">("random");
+  const [gameMode, setGameMode] = useState<GameMode>("random");
+  // Kept so "Play Again" draws the next random pair the same way
+  const [gameSettings, setGameSettings] = useState<GameSettings>({});
 
   // Lobby State (lifted up)
-  const [lobbyState, setLobbyState] = useState<LobbyState>({ roomId: "", isHost: false, isOpen: false, players: [] });
+  const [lobbyState, setLobbyState] = useState<LobbyState>({ roomId: "", playerId: "", isHost: false, isOpen: false, players: [] });
   const [initialView, setInitialView] = useState<"main" | "single" | "multi">("main");
 
   const [opponents, setOpponents] = useState<Record<string, OpponentState>>({});
 
+  // Article requests carry the game's latest token; it is kept out of the
+  // query key so a new token does not refetch the page
+  const articleToken = useRef<string>();
+  const [movePending, setMovePending] = useState(false);
+
   const [winnerPath, setWinnerPath] = useState<string[]>([]);
   const [winnerName, setWinnerName] = useState("");
   const { toast } = useToast();
   const { theme } = useTheme();
 
   const newGameMutation = useMutation({
-    mutationFn: async ({ start, target }: { start?: string; target?: string } = {}) => {
-      const response = await apiRequest("POST", "/api/game/new", { startArticle: start, targetArticle: target });
+    mutationFn: async ({ start, target, site, targetSite, difficulty, scoutingAllowed, mode, roomId }: { start?: string; target?: string; mode?: GameMode; roomId?: string } & GameSettings = {}) => {
+      // The daily pair comes from the server, the same for everyone
+      if (mode === "daily") {
+        return (await (await apiRequest("POST", "/api/daily/start")).json()) as NewGameResponse;
+      }
+      const response = await apiRequest("POST", "/api/game/new", {
+        mode,
+        roomId,
+        startArticle: start,
+        targetArticle: target,
+        site,
+        targetSite,
+        difficulty,
+        scoutingAllowed,
+      });
       return (await response.json()) as NewGameResponse;
     },
     onSuccess: (data) => {
+      if (data.warnings?.length) {
+        toast({ title: "Restricted article", description: data.warnings.join(" ") });
+      }
+      articleToken.current = data.articleToken;
       setGameState({
+        id: data.id,
+        site: data.site,
+        targetSite: data.targetSite,
         startArticle: data.startArticle,
         targetArticle: data.targetArticle,
+        currentSite: data.site,
         currentArticle: data.startArticle, // Initially current is start
-        path: [data.startArticle],
+        path: [{ site: data.site, title: data.startArticle }],
         clicks: 0,
         startTime: Date.now(),
+        rules: data.rules,
+        puzzleDate: data.puzzleDate,
+        pinnedAt: data.pinnedAt,
         isComplete: false,
       });
-      setTimeLeft(180);
+      setTimeLeft(data.rules.timeLimitSeconds);
       setShowWinModal(false);
       setShowLoseModal(false);
       setShowWinModal(false);
@@ -741,10 +1144,21 @@ export default function GamePage() {
       setWinnerName("");
       queryClient.invalidateQueries({ queryKey: ["/api/article"] });
     },
+    onError: (error) => {
+      // Rejected manual articles are explained next to their inputs instead
+      const details = error instanceof ApiError ? error.json<Partial<NewGameError>>() : undefined;
+      if (!details?.fields) {
+        toast({ title: "Failed to start game", description: details?.error, variant: "destructive" });
+      }
+    },
   });
 
   const articleQuery = useQuery<Article>({
-    queryKey: ["/api/article", gameState?.currentArticle],
+    queryKey: articleQueryKey(gameState?.currentSite ?? "", gameState?.currentArticle ?? "", gameState?.pinnedAt ?? 0),
+    queryFn: async ({ queryKey }) => {
+      const res = await apiRequest("GET", queryKey.join("/"), undefined, { "X-Game-Token": articleToken.current ?? "" });
+      return res.json();
+    },
     enabled: !!gameState?.currentArticle,
   });
 
@@ -774,7 +1188,7 @@ export default function GamePage() {
         }
       }));
 
-      if (data.winnerId !== socket.id) {
+      if (data.winnerId !== lobbyState.playerId) {
         toast({
           title: "Winner!",
           description: `${data.winnerName} has finished the game!`,
@@ -820,72 +1234,164 @@ export default function GamePage() {
       socket.off("player_left");
       socket.off("reset_to_lobby");
     };
-  }, [gameMode, toast]);
+  }, [gameMode, lobbyState.playerId, toast]);
+
+  const announceWin = useCallback((path: PathStep[]) => {
+    setShowWinModal(true);
+    if (gameMode === "multiplayer") {
+      socket.emit("game_win", { roomId: lobbyState.roomId, path }, (response: { error?: string }) => {
+        if (response.error) {
+          toast({ title: "Your win could not be verified", description: response.error, variant: "destructive" });
+        }
+      });
+    }
+  }, [gameMode, lobbyState.roomId, toast]);
+
+  // The server keeps the clock and the click count and decides the outcome;
+  // `path` is the local route, used when announcing a win
+  const applySession = useCallback((session: GameSession, path?: PathStep[]) => {
+    articleToken.current = session.articleToken;
+    setTimeLeft(session.timeLeftSeconds);
+    setGameState(state => state && state.id === session.id
+      ? { ...state, clicks: session.clicks, isComplete: session.status !== "playing" }
+      : state);
+
+    if (session.status === "won") {
+      announceWin(path ?? [
+        { site: session.site, title: session.startArticle },
+        ...session.moves.map(({ site, title }) => ({ site, title })),
+      ]);
+    } else if (session.status === "lost") {
+      setShowLoseModal(true);
+    }
+  }, [announceWin]);
 
+  // A game left before it ended (for a new game, the menu, the lobby or
+  // another page) is recorded as abandoned. The server keeps the outcome of
+  // games that already ended, so the request is harmless after a win.
+  const unfinishedGameId = gameState && !gameState.isComplete ? gameState.id : undefined;
+  useEffect(() => {
+    if (!unfinishedGameId) return;
+    const url = `/api/game/${unfinishedGameId}/abandon`;
+    const onPageHide = () => navigator.sendBeacon(url);
+    window.addEventListener("pagehide", onPageHide);
+    return () => {
+      window.removeEventListener("pagehide", onPageHide);
+      apiRequest("POST", url).catch(error => console.error("Error abandoning game:", error));
+    };
+  }, [unfinishedGameId]);
+
+  const refreshSession = useCallback((id: string) => {
+    apiRequest("GET", `/api/game/${id}`)
+      .then(res => res.json())
+      .then((session: GameSession) => applySession(session))
+      .catch(error => console.error("Error refreshing game:", error));
+  }, [applySession]);
+
+  // Once an article loads, record the revision shown in the path. If it
+  // loaded under a different title (a redirect or another capitalization),
+  // record the canonical title too.
   useEffect(() => {
     if (!gameState || gameState.isComplete || !articleQuery.data) return;
-    const canonicalTitle = articleQuery.data.title;
+    const { title: canonicalTitle, revisionId } = articleQuery.data;
     const currentTitle = gameState.currentArticle;
+    const lastStep = gameState.path[gameState.path.length - 1];
+    if (canonicalTitle === currentTitle && lastStep.revisionId === revisionId) return;
 
-    // Check if we need to update canonical title (redirect handling)
     if (canonicalTitle !== currentTitle) {
-      // Logic to update path if redirect happened invisible to user or just fix state
-      // Actually if we just clicked, we want to record the new title
-
-      // If looking at fresh state:
-      if (gameState.path.length === 1 && gameState.path[0] === gameState.startArticle && currentTitle === gameState.startArticle) {
-        // Initial load, do nothing if matching
-      }
+      queryClient.setQueryData(
+        articleQueryKey(gameState.currentSite, canonicalTitle, gameState.pinnedAt),
+        articleQuery.data,
+      );
     }
+    const step = { site: gameState.currentSite, title: canonicalTitle, revisionId };
+    const newPath = [...gameState.path.slice(0, -1), step];
+    setGameState({ ...gameState, currentArticle: canonicalTitle, path: newPath });
   }, [articleQuery.data, gameState]);
 
+  // The local countdown is only a display; when it runs out, the server is
+  // asked whether the game really is over
   useEffect(() => {
     if (!gameState || gameState.isComplete) return;
     const interval = setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 1) {
-          clearInterval(interval);
-          setGameState(state => state ? ({ ...state, isComplete: true }) : null);
-          setShowLoseModal(true);
-          return 0;
-        }
-        return prev - 1;
-      });
+      setTimeLeft(prev => Math.max(prev - 1, 0));
     }, 1000);
     return () => clearInterval(interval);
-  }, [gameState?.isComplete]);
+  }, [gameState?.id, gameState?.isComplete]);
 
-  const handleLinkClick = useCallback((title: string) => {
-    if (!gameState || gameState.isComplete) return;
-    const newPath = [...gameState.path, title];
-    const isWin = title === gameState.targetArticle;
-    const newClicks = gameState.clicks + 1;
-
-    setGameState({ ...gameState, currentArticle: title, path: newPath, clicks: newClicks, isComplete: isWin });
-
-    if (gameMode === "multiplayer") {
-      socket.emit("update_progress", { roomId: lobbyState.roomId, currentArticle: title, clicks: newClicks });
-    }
-
-    if (isWin) {
-      setShowWinModal(true);
-      if (gameMode === "multiplayer") {
-        socket.emit("game_win", { roomId: lobbyState.roomId, path: newPath });
-      }
+  useEffect(() => {
+    if (timeLeft === 0 && gameState && !gameState.isComplete) {
+      refreshSession(gameState.id);
     }
-  }, [gameState, gameMode, lobbyState.roomId]);
-
-  const handleNewGame = useCallback((start?: string, target?: string, mode?: "random" | "manual" | "multiplayer") => {
+  }, [timeLeft, gameState?.id, gameState?.isComplete, refreshSession]);
+
+  // `site` is set when following a language link into another edition
+  const handleLinkClick = useCallback((title: string, site?: string) => {
+    if (!gameState || gameState.isComplete || movePending) return;
+    setMovePending(true);
+
+    // The server has to accept a move before its article may be read, so
+    // navigation waits for the answer, which also settles clicks and outcome
+    apiRequest("POST", `/api/game/${gameState.id}/move`, { site: site ?? gameState.currentSite, title })
+      .then(res => res.json())
+      .then((session: GameSession) => {
+        const { site: reachedSite, title: reachedTitle } = session.moves[session.moves.length - 1];
+        const newPath = [...gameState.path, { site: reachedSite, title: reachedTitle }];
+        setGameState(state => state && state.id === session.id
+          ? { ...state, currentSite: reachedSite, currentArticle: reachedTitle, path: newPath }
+          : state);
+        applySession(session, newPath);
+
+        if (gameMode === "multiplayer") {
+          socket.emit(
+            "update_progress",
+            { roomId: lobbyState.roomId, currentSite: reachedSite, currentArticle: reachedTitle },
+            (response: { error?: string }) => {
+              // The session already accepted the move, so this is unexpected
+              if (response.error) console.warn("Room rejected move:", response.error);
+            },
+          );
+        }
+      })
+      .catch(error => {
+        const rejection = error instanceof ApiError && error.status === 422 ? error.json<MoveError>() : undefined;
+        if (rejection) {
+          toast({ title: "Move not allowed", description: rejection.error, variant: "destructive" });
+          return;
+        }
+        // Most likely the game ended first; the session says how
+        console.error("Error recording move:", error);
+        refreshSession(gameState.id);
+      })
+      .finally(() => setMovePending(false));
+  }, [gameState, movePending, gameMode, lobbyState.roomId, applySession, refreshSession, toast]);
+
+  const handleNewGame = useCallback((start?: string, target?: string, mode?: GameMode, settings?: GameSettings) => {
     // Explicit Mode Start (First launch)
     if (start && target) {
       setGameMode(mode || "manual");
-      newGameMutation.mutate({ start, target });
+      newGameMutation.mutate({
+        mode: mode || "manual",
+        roomId: mode === "multiplayer" ? lobbyState.roomId : undefined,
+        start,
+        target,
+        site: settings?.site,
+        targetSite: settings?.targetSite,
+        scoutingAllowed: settings?.scoutingAllowed,
+      });
+      return;
+    }
+    if (mode === "daily") {
+      setGameMode("daily");
+      newGameMutation.mutate({ mode: "daily" });
       return;
     }
     // Random Start (First launch)
-    if (mode === "random" || (!mode && !start && !target && gameMode !== "multiplayer" && gameMode !== "manual")) {
+    if (mode === "random" || (!mode && !start && !target && gameMode === "random")) {
+      const next = settings ?? gameSettings;
       setGameMode("random");
-      newGameMutation.mutate({});
+      setGameSettings(next);
+      newGameMutation.mutate({ ...next, mode: "random" });
       return;
     }
 
@@ -894,34 +1400,37 @@ export default function GamePage() {
       // Synchronized Return
       socket.emit("return_to_lobby", { roomId: lobbyState.roomId });
     } else {
-      // Single player: Return to Single Select screen
+      // Single player: Return to Single Select screen, or to the main one
+      // where the daily challenge is
       setGameState(null);
       setTimeLeft(180);
       setShowWinModal(false);
       setShowLoseModal(false);
       setShowLoseModal(false);
       setOpponents({});
-      setInitialView("single");
+      setInitialView(gameMode === "daily" ? "main" : "single");
     }
-  }, [newGameMutation, gameMode, lobbyState.roomId]);
+  }, [newGameMutation, gameMode, gameSettings, lobbyState.roomId]);
 
   const handleBackToMenu = () => {
     setGameState(null);
     setGameMode("random");
     setTimeLeft(180);
     setOpponents({});
-    setLobbyState({ roomId: "", isHost: false, isOpen: false, players: [] });
+    setLobbyState({ roomId: "", playerId: "", isHost: false, isOpen: false, players: [] });
     setInitialView("main");
     socket.disconnect();
   };
 
   if (!gameState) {
+    const setupError = newGameMutation.error;
     return <StartScreen
       onStart={handleNewGame}
       isLoading={newGameMutation.isPending}
       lobbyState={lobbyState}
       setLobbyState={setLobbyState}
       initialView={initialView}
+      setupErrors={setupError instanceof ApiError ? setupError.json<NewGameError>()?.fields : undefined}
     />;
   }
 
@@ -947,7 +1456,7 @@ export default function GamePage() {
           <ArticleContent
             article={articleQuery.data}
             onLinkClick={handleLinkClick}
-            isLoading={articleQuery.isLoading}
+            isLoading={articleQuery.isLoading || movePending}
             gameState={gameState}
             title={gameState.currentArticle}
           />
@@ -961,6 +1470,7 @@ export default function GamePage() {
         onNewGame={() => handleNewGame()}
         onClose={() => setShowWinModal(false)}
         isMultiplayer={gameMode === "multiplayer"}
+        articleToken={articleToken.current}
       />
       <LoseModal
         isOpen={showLoseModal}
@@ -970,6 +1480,7 @@ export default function GamePage() {
         isMultiplayer={gameMode === "multiplayer"}
         winnerPath={winnerPath}
         winnerName={winnerName}
+        articleToken={articleToken.current}
       />
     </div>
   );
@@ -0,0 +1,352 @@
+import { Fragment, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronRight, Undo2 } from "lucide-react";
+import type { GameMode, GameStatus, HistoryEntry } from "@shared/schema";
+import { siteLabel } from "@shared/sites";
+import { useAuth } from "@/hooks/use-auth";
+import { AccountMenu } from "@/components/account-menu";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const MODE_LABELS: Record<GameMode, string> = {
+  random: "Random",
+  manual: "Manual",
+  multiplayer: "Multiplayer",
+  daily: "Daily",
+};
+
+const STATUS_LABELS: Record<GameStatus, string> = {
+  playing: "In progress",
+  won: "Won",
+  lost: "Time up",
+  abandoned: "Abandoned",
+};
+
+const STATUS_VARIANTS: Record<GameStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  playing: "outline",
+  won: "default",
+  lost: "destructive",
+  abandoned: "secondary",
+};
+
+const display = (title: string) => title.replace(/_/g, " ");
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+// Time from the start to the end of a game, or to its last click when the
+// end was never recorded
+function durationOf(game: HistoryEntry): number | null {
+  const end = game.finishedAt ?? game.moves[game.moves.length - 1]?.at;
+  return end === undefined ? null : end - game.startedAt;
+}
+
+type SortKey = "date" | "mode" | "status" | "clicks" | "time";
+
+const SORT_VALUES: Record<SortKey, (game: HistoryEntry) => number | string> = {
+  date: game => game.startedAt,
+  mode: game => MODE_LABELS[game.mode],
+  status: game => STATUS_LABELS[game.status],
+  clicks: game => game.moves.length,
+  // Games without a duration sort last
+  time: game => durationOf(game) ?? Infinity,
+};
+
+function sortGames(games: HistoryEntry[], key: SortKey, descending: boolean): HistoryEntry[] {
+  const value = SORT_VALUES[key];
+  return games.slice().sort((a, b) => {
+    const [x, y] = [value(a), value(b)];
+    const order = x < y ? -1 : x > y ? 1 : 0;
+    return descending ? -order : order;
+  });
+}
+
+const trendConfig = {
+  clicks: { label: "Clicks", color: "hsl(var(--chart-1))" },
+  seconds: { label: "Seconds", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const winRateConfig = {
+  winRate: { label: "Win rate (%)", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+const visitsConfig = {
+  visits: { label: "Visits", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig;
+
+// Everything the charts show, computed once per history
+function summarize(games: HistoryEntry[]) {
+  const chronological = games.slice().sort((a, b) => a.startedAt - b.startedAt);
+  const trend = chronological
+    .filter(game => game.status === "won")
+    .map(game => ({
+      date: new Date(game.startedAt).toLocaleDateString(),
+      clicks: game.moves.length,
+      seconds: Math.round((durationOf(game) ?? 0) / 1000),
+    }));
+
+  const winRate = (Object.keys(MODE_LABELS) as GameMode[])
+    .map(mode => {
+      const played = games.filter(game => game.mode === mode && game.status !== "playing");
+      const won = played.filter(game => game.status === "won").length;
+      return { mode: MODE_LABELS[mode], played: played.length, winRate: played.length ? Math.round((won / played.length) * 100) : 0 };
+    })
+    .filter(row => row.played > 0);
+
+  const visits = new Map<string, number>();
+  for (const game of games) {
+    for (const title of [game.startArticle, ...game.moves.map(move => move.title)]) {
+      visits.set(title, (visits.get(title) ?? 0) + 1);
+    }
+  }
+  const mostVisited = Array.from(visits.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .map(([title, count]) => ({ title: display(title), visits: count }));
+
+  const finished = games.filter(game => game.status !== "playing");
+  const wins = games.filter(game => game.status === "won");
+  return {
+    trend,
+    winRate,
+    mostVisited,
+    played: finished.length,
+    wins: wins.length,
+    averageClicks: wins.length ? wins.reduce((sum, game) => sum + game.moves.length, 0) / wins.length : null,
+  };
+}
+
+function SortableHead({
+  label,
+  column,
+  sort,
+  onSort,
+  className
+}: {
+  label: string;
+  column: SortKey;
+  sort: { key: SortKey; descending: boolean };
+  onSort: (key: SortKey) => void;
+  className?: string;
+}) {
+  const Icon = sort.key !== column ? ArrowUpDown : sort.descending ? ArrowDown : ArrowUp;
+  return (
+    <TableHead className={className}>
+      <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => onSort(column)}>
+        {label}
+        <Icon className="ml-1 h-3 w-3" />
+      </Button>
+    </TableHead>
+  );
+}
+
+// The clicks of one game with the time each was made, from the start
+function PathDetails({ game }: { game: HistoryEntry }) {
+  const crossLanguage = game.site !== game.targetSite;
+  return (
+    <ol className="space-y-1 text-sm">
+      <li className="flex gap-3">
+        <span className="w-12 text-right font-mono text-muted-foreground">0:00</span>
+        <span>{display(game.startArticle)}</span>
+      </li>
+      {game.moves.map((move, i) => (
+        <li key={i} className="flex gap-3">
+          <span className="w-12 text-right font-mono text-muted-foreground">{formatDuration(move.at - game.startedAt)}</span>
+          <span>
+            {display(move.title)}
+            {crossLanguage && <span className="text-muted-foreground"> · {siteLabel(move.site)}</span>}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function HistoryTable({ games }: { games: HistoryEntry[] }) {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: "date", descending: true });
+  const [expanded, setExpanded] = useState<string>();
+  const sorted = useMemo(() => sortGames(games, sort.key, sort.descending), [games, sort]);
+
+  const onSort = (key: SortKey) => {
+    setSort(current => ({ key, descending: current.key === key ? !current.descending : key === "date" }));
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-8" />
+          <SortableHead label="Date" column="date" sort={sort} onSort={onSort} />
+          <SortableHead label="Mode" column="mode" sort={sort} onSort={onSort} />
+          <TableHead>Route</TableHead>
+          <SortableHead label="Outcome" column="status" sort={sort} onSort={onSort} />
+          <SortableHead label="Clicks" column="clicks" sort={sort} onSort={onSort} className="text-right" />
+          <SortableHead label="Time" column="time" sort={sort} onSort={onSort} className="text-right" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sorted.map(game => {
+          const duration = durationOf(game);
+          const open = expanded === game.id;
+          return (
+            <Fragment key={game.id}>
+              <TableRow className="cursor-pointer" onClick={() => setExpanded(open ? undefined : game.id)}>
+                <TableCell>
+                  <ChevronRight className={`h-4 w-4 transition-transform ${open ? "rotate-90" : ""}`} />
+                </TableCell>
+                <TableCell className="whitespace-nowrap">{new Date(game.startedAt).toLocaleString()}</TableCell>
+                <TableCell>{MODE_LABELS[game.mode]}</TableCell>
+                <TableCell>
+                  {display(game.startArticle)} → {display(game.targetArticle)}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={STATUS_VARIANTS[game.status]}>{STATUS_LABELS[game.status]}</Badge>
+                </TableCell>
+                <TableCell className="text-right font-mono">{game.moves.length}</TableCell>
+                <TableCell className="text-right font-mono">{duration === null ? "–" : formatDuration(duration)}</TableCell>
+              </TableRow>
+              {open && (
+                <TableRow className="hover:bg-transparent">
+                  <TableCell />
+                  <TableCell colSpan={6}>
+                    <PathDetails game={game} />
+                  </TableCell>
+                </TableRow>
+              )}
+            </Fragment>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <Card className="p-4">
+      <div className="text-sm text-muted-foreground">{label}</div>
+      <div className="text-2xl font-bold font-mono">{value}</div>
+    </Card>
+  );
+}
+
+function HistoryCharts({ games }: { games: HistoryEntry[] }) {
+  const summary = useMemo(() => summarize(games), [games]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard label="Games finished" value={String(summary.played)} />
+        <StatCard label="Wins" value={String(summary.wins)} />
+        <StatCard label="Win rate" value={summary.played ? `${Math.round((summary.wins / summary.played) * 100)}%` : "–"} />
+        <StatCard label="Clicks per win" value={summary.averageClicks === null ? "–" : summary.averageClicks.toFixed(1)} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <Card className="p-4 space-y-2">
+          <h3 className="font-semibold">Clicks and time per win</h3>
+          {summary.trend.length > 0 ? (
+            <ChartContainer config={trendConfig} className="h-56 w-full">
+              <LineChart data={summary.trend}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                <YAxis yAxisId="clicks" allowDecimals={false} width={30} />
+                <YAxis yAxisId="seconds" orientation="right" width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line yAxisId="clicks" dataKey="clicks" stroke="var(--color-clicks)" strokeWidth={2} dot={false} />
+                <Line yAxisId="seconds" dataKey="seconds" stroke="var(--color-seconds)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-sm text-muted-foreground">Win a game to see your trend.</p>
+          )}
+        </Card>
+
+        <Card className="p-4 space-y-2">
+          <h3 className="font-semibold">Win rate by mode</h3>
+          {summary.winRate.length > 0 ? (
+            <ChartContainer config={winRateConfig} className="h-56 w-full">
+              <BarChart data={summary.winRate}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="mode" tickLine={false} axisLine={false} />
+                <YAxis domain={[0, 100]} width={30} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="winRate" fill="var(--color-winRate)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-sm text-muted-foreground">No finished games yet.</p>
+          )}
+        </Card>
+
+        <Card className="p-4 space-y-2">
+          <h3 className="font-semibold">Most visited articles</h3>
+          <ChartContainer config={visitsConfig} className="h-56 w-full">
+            <BarChart data={summary.mostVisited} layout="vertical" margin={{ left: 8 }}>
+              <XAxis type="number" allowDecimals={false} hide />
+              <YAxis type="category" dataKey="title" tickLine={false} axisLine={false} width={110} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="visits" fill="var(--color-visits)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default function HistoryPage() {
+  const { user, isLoading: userLoading } = useAuth();
+  const { data: games, isLoading } = useQuery<HistoryEntry[]>({
+    queryKey: ["/api/history"],
+    enabled: !!user,
+    // Games finish while this page is not shown
+    staleTime: 0,
+  });
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <Link href="/" asChild>
+            <Button variant="ghost" size="sm">
+              <Undo2 className="w-4 h-4 mr-1" /> Back
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold">Your games</h1>
+          <AccountMenu />
+        </div>
+
+        {userLoading || (user && isLoading) ? (
+          <div className="space-y-4">
+            <Skeleton className="h-24 w-full" />
+            <Skeleton className="h-64 w-full" />
+          </div>
+        ) : !user ? (
+          <Card className="p-8 text-center text-muted-foreground">
+            Log in or play as a guest to keep a history of your games.
+          </Card>
+        ) : !games?.length ? (
+          <Card className="p-8 text-center text-muted-foreground">
+            No games yet. Finished games show up here.
+          </Card>
+        ) : (
+          <>
+            <HistoryCharts games={games} />
+            <Card className="p-2">
+              <HistoryTable games={games} />
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
+  // Created and managed by connect-pg-simple
+  tablesFilter: ["!session"],
   dbCredentials: {
     url: process.env.DATABASE_URL,
   },
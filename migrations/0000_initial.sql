@@ -0,0 +1,88 @@
+CREATE TABLE "games" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text,
+	"room_id" text,
+	"mode" text NOT NULL,
+	"site" text NOT NULL,
+	"target_site" text NOT NULL,
+	"start_article" text NOT NULL,
+	"target_article" text NOT NULL,
+	"pinned_at" timestamp NOT NULL,
+	"rules" jsonb NOT NULL,
+	"status" text NOT NULL,
+	"started_at" timestamp NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "moves" (
+	"game_id" text NOT NULL,
+	"index" integer NOT NULL,
+	"site" text NOT NULL,
+	"title" text NOT NULL,
+	"at" timestamp NOT NULL,
+	CONSTRAINT "moves_game_id_index_pk" PRIMARY KEY("game_id","index")
+);
+--> statement-breakpoint
+CREATE TABLE "page_links" (
+	"from_id" integer NOT NULL,
+	"to_id" integer NOT NULL,
+	CONSTRAINT "page_links_from_id_to_id_pk" PRIMARY KEY("from_id","to_id")
+);
+--> statement-breakpoint
+CREATE TABLE "pages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"redirect_to" integer,
+	"fetched_at" timestamp,
+	CONSTRAINT "pages_title_unique" UNIQUE("title")
+);
+--> statement-breakpoint
+CREATE TABLE "puzzles" (
+	"date" text PRIMARY KEY NOT NULL,
+	"site" text NOT NULL,
+	"start_article" text NOT NULL,
+	"target_article" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "results" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" text NOT NULL,
+	"user_id" text,
+	"site" text NOT NULL,
+	"target_site" text NOT NULL,
+	"start_article" text NOT NULL,
+	"target_article" text NOT NULL,
+	"rules_key" text NOT NULL,
+	"clicks" integer NOT NULL,
+	"duration_ms" integer NOT NULL,
+	"finished_at" timestamp NOT NULL,
+	CONSTRAINT "results_game_id_unique" UNIQUE("game_id")
+);
+--> statement-breakpoint
+CREATE TABLE "rooms" (
+	"id" text PRIMARY KEY NOT NULL,
+	"host_id" text NOT NULL,
+	"content_policy" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" text PRIMARY KEY NOT NULL,
+	"username" text,
+	"password_hash" text,
+	"display_name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "games" ADD CONSTRAINT "games_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "moves" ADD CONSTRAINT "moves_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "page_links" ADD CONSTRAINT "page_links_from_id_pages_id_fk" FOREIGN KEY ("from_id") REFERENCES "public"."pages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "page_links" ADD CONSTRAINT "page_links_to_id_pages_id_fk" FOREIGN KEY ("to_id") REFERENCES "public"."pages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pages" ADD CONSTRAINT "pages_redirect_to_pages_id_fk" FOREIGN KEY ("redirect_to") REFERENCES "public"."pages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "results" ADD CONSTRAINT "results_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "results" ADD CONSTRAINT "results_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "games_user_id_idx" ON "games" USING btree ("user_id","started_at");--> statement-breakpoint
+CREATE INDEX "page_links_to_id_idx" ON "page_links" USING btree ("to_id");--> statement-breakpoint
+CREATE INDEX "results_pair_idx" ON "results" USING btree ("site","target_site","start_article","target_article","rules_key","finished_at");
\ No newline at end of file
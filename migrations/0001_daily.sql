@@ -0,0 +1,11 @@
+CREATE TABLE "daily_plays" (
+	"date" text NOT NULL,
+	"player_key" text NOT NULL,
+	"game_id" text NOT NULL,
+	CONSTRAINT "daily_plays_date_player_key_pk" PRIMARY KEY("date","player_key")
+);
+--> statement-breakpoint
+ALTER TABLE "games" ADD COLUMN "puzzle_date" text;--> statement-breakpoint
+ALTER TABLE "results" ADD COLUMN "puzzle_date" text;--> statement-breakpoint
+CREATE INDEX "daily_plays_player_key_idx" ON "daily_plays" USING btree ("player_key");--> statement-breakpoint
+CREATE INDEX "results_puzzle_date_idx" ON "results" USING btree ("puzzle_date");
\ No newline at end of file
@@ -0,0 +1,27 @@
+import fs from "fs";
+import readline from "readline";
+import { createGunzip } from "zlib";
+
+export interface LineProgress {
+  bytesRead: number;
+  totalBytes: number;
+}
+
+// Streams a (optionally gzipped) dump line by line. Progress is measured on
+// the compressed file, so it stays meaningful for .gz input.
+export async function* readDumpLines(
+  file: string,
+  progress: LineProgress = { bytesRead: 0, totalBytes: 0 },
+): AsyncGenerator<string> {
+  progress.totalBytes = fs.statSync(file).size;
+  const raw = fs.createReadStream(file);
+  raw.on("data", chunk => {
+    progress.bytesRead += chunk.length;
+  });
+
+  const input = file.endsWith(".gz") ? raw.pipe(createGunzip()) : raw;
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  for await (const line of lines) {
+    yield line;
+  }
+}
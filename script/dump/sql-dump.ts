@@ -0,0 +1,93 @@
+import { readDumpLines, type LineProgress } from "./read-lines";
+
+export type SqlRow = Record<string, string | null>;
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", "0": "\0", Z: "\x1a" };
+
+// Splits the tuples of one `INSERT INTO ... VALUES (...),(...);` statement as
+// written by mysqldump: single-quoted strings with backslash escapes, bare
+// numbers and NULL.
+export function* parseInsertValues(line: string): Generator<(string | null)[]> {
+  const start = line.indexOf(" VALUES ");
+  if (start < 0) return;
+
+  let row: (string | null)[] = [];
+  let field = "";
+  let quoted = false;
+  let inRow = false;
+  let inString = false;
+
+  for (let i = start + 8; i < line.length; i++) {
+    const c = line[i];
+    if (inString) {
+      if (c === "\\") {
+        const next = line[++i];
+        field += ESCAPES[next] ?? next;
+      } else if (c === "'") {
+        inString = false;
+      } else {
+        field += c;
+      }
+      continue;
+    }
+
+    if (!inRow) {
+      if (c === "(") {
+        inRow = true;
+        row = [];
+        field = "";
+        quoted = false;
+      }
+      continue;
+    }
+
+    if (c === "'") {
+      inString = true;
+      quoted = true;
+    } else if (c === "," || c === ")") {
+      row.push(!quoted && field === "NULL" ? null : field);
+      field = "";
+      quoted = false;
+      if (c === ")") {
+        inRow = false;
+        yield row;
+      }
+    } else {
+      field += c;
+    }
+  }
+}
+
+// Rows of a MediaWiki table dump, keyed by column name. Column order is taken
+// from the dump's own CREATE TABLE statement because it differs between
+// MediaWiki versions.
+export async function* readSqlDump(file: string, progress?: LineProgress): AsyncGenerator<SqlRow> {
+  let columns: string[] = [];
+  let inCreate = false;
+
+  for await (const line of readDumpLines(file, progress)) {
+    if (line.startsWith("CREATE TABLE")) {
+      inCreate = true;
+      columns = [];
+      continue;
+    }
+    if (inCreate) {
+      const column = line.match(/^\s+`(\w+)`\s/);
+      if (column) columns.push(column[1]);
+      if (line.startsWith(")")) inCreate = false;
+      continue;
+    }
+    if (!line.startsWith("INSERT INTO")) continue;
+    if (columns.length === 0) {
+      throw new Error(`${file}: INSERT before CREATE TABLE, cannot tell the column order`);
+    }
+
+    for (const values of parseInsertValues(line)) {
+      const row: SqlRow = {};
+      columns.forEach((name, i) => {
+        row[name] = values[i] ?? null;
+      });
+      yield row;
+    }
+  }
+}
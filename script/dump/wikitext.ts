@@ -0,0 +1,154 @@
+import type { Namespaces } from "./xml-dump";
+
+export interface RenderedArticle {
+  html: string;
+  links: string[];
+  // Categories the page is directly in, without the namespace prefix
+  categories: string[];
+  isDisambiguation: boolean;
+}
+
+const DISAMBIGUATION_TEMPLATE = /\{\{\s*(disambiguation|disambig|dab|hndis|geodis|set index article)\s*[|}]/i;
+
+// Inline markup that wikitext commonly embeds as literal HTML
+const INLINE_TAGS = /&lt;(\/?)(sub|sup|br|small|big|s|u|code|var)\s*(\/?)&gt;/gi;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(INLINE_TAGS, "<$1$2$3>");
+}
+
+function unescapeHtml(text: string): string {
+  return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+}
+
+// Removes innermost `open ... close` pairs until none are left, which copes
+// with nesting without a full parser
+function stripNested(text: string, pattern: RegExp): string {
+  let previous: string;
+  do {
+    previous = text;
+    text = text.replace(pattern, "");
+  } while (text !== previous);
+  return text;
+}
+
+// Drops [[File:...]] and [[Category:...]] links, whose captions may contain
+// further links, by matching brackets instead of using a regex
+function removeMediaLinks(text: string, names: (string | undefined)[]): string {
+  const opener = new RegExp(
+    `\\[\\[\\s*(?:${names.filter(Boolean).map(name => name!.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})\\s*:`,
+    "gi",
+  );
+  let result = "";
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = opener.exec(text))) {
+    result += text.slice(position, match.index);
+    let depth = 0;
+    let i = match.index;
+    while (i < text.length) {
+      if (text.startsWith("[[", i)) {
+        depth++;
+        i += 2;
+      } else if (text.startsWith("]]", i)) {
+        depth--;
+        i += 2;
+        if (depth === 0) break;
+      } else {
+        i++;
+      }
+    }
+    position = i;
+    opener.lastIndex = i;
+  }
+  return result + text.slice(position);
+}
+
+function toTitle(target: string): string {
+  const title = target.trim().replace(/\s+/g, "_");
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
+
+// Deliberately small wikitext renderer for offline snapshots: paragraphs,
+// headings, lists, emphasis and links survive; templates, tables, references
+// and media are dropped. The output is shaped like MediaWiki's parser output
+// so it runs through the same transformation and sanitization passes.
+export function renderWikitext(text: string, namespaces: Namespaces): RenderedArticle {
+  const isDisambiguation = DISAMBIGUATION_TEMPLATE.test(text);
+  const prefixes = new Set(
+    Array.from(namespaces.entries())
+      .filter(([id, name]) => id !== 0 && name)
+      .map(([, name]) => name.toLowerCase()),
+  );
+  const links = new Set<string>();
+
+  let source = text
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<ref[^>]*\/>/gi, "")
+    .replace(/<ref[^>]*>[\s\S]*?<\/ref>/gi, "");
+  source = stripNested(source, /\{\{[^{}]*\}\}/g);
+  source = stripNested(source, /\{\|[^{}]*?\|\}/g);
+
+  const categoryNames = Array.from(new Set([namespaces.get(14), "Category"].filter(Boolean))).join("|");
+  const categories = Array.from(
+    source.matchAll(new RegExp(`\\[\\[\\s*(?:${categoryNames})\\s*:\\s*([^|\\]]+)`, "gi")),
+    match => toTitle(match[1]),
+  );
+  source = removeMediaLinks(source, [namespaces.get(6), namespaces.get(14), "File", "Image", "Category"]);
+
+  const inline = (line: string): string =>
+    escapeHtml(line)
+      .replace(/\[\[([^[\]|]+)(?:\|([^[\]]*))?\]\]([a-z]*)/g, (_, target: string, label: string | undefined, trail: string) => {
+        const [page] = unescapeHtml(target).split("#");
+        const colon = page.indexOf(":");
+        const display = (label ?? target) + trail;
+        if (!page.trim() || (colon > 0 && prefixes.has(page.slice(0, colon).trim().toLowerCase()))) {
+          return display;
+        }
+        const title = toTitle(page);
+        links.add(title);
+        const tooltip = escapeHtml(title.replace(/_/g, " ")).replace(/"/g, "&quot;");
+        return `<a href="/wiki/${encodeURIComponent(title)}" title="${tooltip}">${display}</a>`;
+      })
+      .replace(/\[(?:https?:)?\/\/[^\s\]]+\s*([^\]]*)\]/g, "$1")
+      .replace(/'''(.+?)'''/g, "<b>$1</b>")
+      .replace(/''(.+?)''/g, "<i>$1</i>");
+
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let list: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) html.push(`<p>${paragraph.join(" ")}</p>`);
+    if (list.length > 0) html.push(`<ul>${list.join("")}</ul>`);
+    paragraph = [];
+    list = [];
+  };
+
+  for (const rawLine of source.split("\n")) {
+    const line = rawLine.trim();
+    const heading = line.match(/^(={2,6})\s*(.+?)\s*\1$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      html.push(`<h${level}>${inline(heading[2])}</h${level}>`);
+    } else if (/^[*#]+/.test(line)) {
+      if (paragraph.length > 0) flush();
+      list.push(`<li>${inline(line.replace(/^[*#]+\s*/, ""))}</li>`);
+    } else if (!line || line.startsWith("__")) {
+      flush();
+    } else {
+      if (list.length > 0) flush();
+      paragraph.push(inline(line));
+    }
+  }
+  flush();
+
+  return {
+    html: `<div class="mw-parser-output">${html.join("\n")}</div>`,
+    links: Array.from(links),
+    categories: Array.from(new Set(categories)),
+    isDisambiguation,
+  };
+}
@@ -0,0 +1,69 @@
+import { readDumpLines, type LineProgress } from "./read-lines";
+
+export interface XmlPage {
+  title: string;
+  namespace: number;
+  redirect?: string;
+  text: string;
+}
+
+// Namespace id -> localized name, from the dump's <siteinfo>
+export type Namespaces = Map<number, string>;
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+function decodeXml(value: string): string {
+  return value.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (_, entity: string) => {
+    if (entity.startsWith("#x")) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith("#")) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity];
+  });
+}
+
+function tag(block: string, name: string): string | undefined {
+  const match = block.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// Pages of a pages-articles XML export. The export puts <page> and </page> on
+// lines of their own, so each page is collected as one block of lines.
+export async function* readXmlDump(
+  file: string,
+  namespaces: Namespaces,
+  progress?: LineProgress,
+): AsyncGenerator<XmlPage> {
+  let block: string[] | null = null;
+  let inSiteInfo = false;
+
+  for await (const line of readDumpLines(file, progress)) {
+    const trimmed = line.trim();
+
+    if (trimmed === "<siteinfo>") inSiteInfo = true;
+    if (inSiteInfo) {
+      const namespace = trimmed.match(/^<namespace key="(-?\d+)"[^>]*>(.*)<\/namespace>$/);
+      if (namespace) namespaces.set(Number(namespace[1]), decodeXml(namespace[2]));
+      if (trimmed === "</siteinfo>") inSiteInfo = false;
+      continue;
+    }
+
+    if (trimmed === "<page>") {
+      block = [];
+      continue;
+    }
+    if (!block) continue;
+    if (trimmed !== "</page>") {
+      block.push(line);
+      continue;
+    }
+
+    const xml = block.join("\n");
+    block = null;
+    const redirect = xml.match(/<redirect title="([^"]*)"/);
+    yield {
+      title: tag(xml, "title") || "",
+      namespace: Number(tag(xml, "ns") || 0),
+      redirect: redirect ? decodeXml(redirect[1]) : undefined,
+      text: tag(xml, "text") || "",
+    };
+  }
+}
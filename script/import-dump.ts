@@ -0,0 +1,300 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { parseArgs } from "util";
+import type { LineProgress } from "./dump/read-lines";
+import { readSqlDump, type SqlRow } from "./dump/sql-dump";
+import { readXmlDump, type Namespaces, type XmlPage } from "./dump/xml-dump";
+import { renderWikitext } from "./dump/wikitext";
+import { toTitleKey } from "../server/article-source";
+import { pool } from "../server/db";
+import { linkGraphStore, type LinkGraphStore } from "../server/graph-store";
+
+const USAGE = `Usage:
+  npm run db:import -- sql --page page.sql.gz --redirect redirect.sql.gz --pagelinks pagelinks.sql.gz
+                           [--linktarget linktarget.sql.gz]
+      Loads the link graph of a table dump into Postgres (DATABASE_URL).
+      Run the server with SOLVER_GRAPH=store to solve against it.
+
+  npm run db:import -- xml --input pages-articles.xml.gz --out fixtures/snapshot [--limit N]
+      Renders the articles of an XML export into a fixture directory.
+      Run the server with ARTICLE_SOURCE=fixtures ARTICLE_FIXTURES_DIR=<out>.
+
+Options:
+  --state FILE   checkpoint file (default .cache/import-<mode>.state.json)
+  --restart      ignore an existing checkpoint and start over
+
+Dumps may be plain or gzipped; decompress .bz2 files first. An interrupted
+import resumes from its last checkpoint when run again with the same inputs.`;
+
+const BATCH_SIZE = 5000;
+const PROGRESS_INTERVAL_MS = 2000;
+
+interface ImportState {
+  mode: "sql" | "xml";
+  inputs: string[];
+  stage: string;
+  // Rows (or pages) of the current stage already written
+  done: number;
+  written: number;
+}
+
+function loadState(file: string, mode: ImportState["mode"], inputs: string[], restart: boolean): ImportState {
+  const fresh: ImportState = { mode, inputs, stage: "", done: 0, written: 0 };
+  if (restart || !fs.existsSync(file)) return fresh;
+
+  const saved: ImportState = JSON.parse(fs.readFileSync(file, "utf-8"));
+  if (saved.mode !== mode || saved.inputs.join("\n") !== inputs.join("\n")) {
+    throw new Error(`${file} belongs to a different import; pass --restart to discard it`);
+  }
+  console.log(`Resuming at stage "${saved.stage}" after ${saved.done} rows`);
+  return saved;
+}
+
+function saveState(file: string, state: ImportState) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(state, null, 2));
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+function reporter(label: string, progress: LineProgress) {
+  let last = 0;
+  return (rows: number, force = false) => {
+    if (!force && Date.now() - last < PROGRESS_INTERVAL_MS) return;
+    last = Date.now();
+    const percent = progress.totalBytes ? ((progress.bytesRead / progress.totalBytes) * 100).toFixed(1) : "0.0";
+    console.log(`[${label}] ${percent}% read, ${rows} rows`);
+  };
+}
+
+// Feeds rows to `write` in fixed-size batches and checkpoints after each.
+// Batches that an earlier run already wrote are passed with `resumed` set,
+// so the stage can rebuild in-memory state without writing them again;
+// `replay` treats the whole stage that way.
+async function runStage<T>(
+  stage: string,
+  rows: (progress: LineProgress) => AsyncIterable<T>,
+  state: ImportState,
+  stateFile: string,
+  write: (batch: T[], resumed: boolean) => Promise<void>,
+  replay = false,
+) {
+  const progress: LineProgress = { bytesRead: 0, totalBytes: 0 };
+  const report = reporter(stage, progress);
+  const skip = replay ? Infinity : state.stage === stage ? state.done : 0;
+  if (!replay && state.stage !== stage) {
+    state.stage = stage;
+    state.done = 0;
+  }
+
+  let seen = 0;
+  let batch: T[] = [];
+  const flush = async () => {
+    const resumed = seen <= skip;
+    await write(batch, resumed);
+    batch = [];
+    if (!resumed) {
+      state.done = seen;
+      saveState(stateFile, state);
+    }
+  };
+
+  for await (const row of rows(progress)) {
+    batch.push(row);
+    seen++;
+    if (batch.length >= BATCH_SIZE) await flush();
+    report(seen);
+  }
+  if (batch.length > 0) await flush();
+  report(seen, true);
+}
+
+interface SqlFiles {
+  page: string;
+  redirect: string;
+  pagelinks: string;
+  linktarget?: string;
+}
+
+const SQL_STAGES = ["pages", "redirects", "links", "done"];
+
+async function loadLinkTargets(file: string): Promise<Map<string, string>> {
+  const progress: LineProgress = { bytesRead: 0, totalBytes: 0 };
+  const report = reporter("linktarget", progress);
+  const targets = new Map<string, string>();
+  for await (const row of readSqlDump(file, progress)) {
+    if (row.lt_namespace === "0") targets.set(row.lt_id!, row.lt_title!);
+    report(targets.size);
+  }
+  report(targets.size, true);
+  return targets;
+}
+
+async function importSql(store: LinkGraphStore, files: SqlFiles, state: ImportState, stateFile: string) {
+  const reached = (stage: string) => SQL_STAGES.indexOf(state.stage) > SQL_STAGES.indexOf(stage);
+  // Page ids of the dump and titles, both mapped to our page ids
+  const byDumpId = new Map<string, number>();
+  const byTitle = new Map<string, number>();
+
+  // The pages stage always runs: on resume it only looks up the ids that
+  // the later stages need
+  await runStage("pages", progress => readSqlDump(files.page, progress), state, stateFile, async (batch, resumed) => {
+    const articles = batch.filter(row => row.page_namespace === "0");
+    const titles = articles.map(row => row.page_title!);
+    const ids = resumed ? await store.pageIdsFor(titles) : await store.importPages(titles);
+    for (const row of articles) {
+      const id = ids.get(row.page_title!);
+      if (id === undefined) continue;
+      byDumpId.set(row.page_id!, id);
+      byTitle.set(row.page_title!, id);
+    }
+    if (!resumed) state.written += ids.size;
+  }, reached("pages"));
+
+  if (!reached("redirects")) {
+    await runStage("redirects", progress => readSqlDump(files.redirect, progress), state, stateFile, async (batch, resumed) => {
+      if (resumed) return;
+      const redirects = batch
+        .filter(row => row.rd_namespace === "0" && !row.rd_interwiki)
+        .map(row => ({ fromId: byDumpId.get(row.rd_from!), toId: byTitle.get(row.rd_title!) }))
+        .filter((r): r is { fromId: number; toId: number } => r.fromId !== undefined && r.toId !== undefined);
+      await store.importRedirects(redirects);
+    });
+  }
+
+  if (!reached("links")) {
+    // Since MediaWiki 1.41 pagelinks refers to its target through linktarget
+    let targets: Map<string, string> | null = null;
+    const targetTitle = (row: SqlRow): string | undefined => {
+      if (row.pl_title !== undefined) return row.pl_namespace === "0" ? row.pl_title! : undefined;
+      if (!targets) {
+        throw new Error("This pagelinks dump uses pl_target_id; pass --linktarget as well");
+      }
+      return targets.get(row.pl_target_id!);
+    };
+    if (files.linktarget) targets = await loadLinkTargets(files.linktarget);
+
+    await runStage("links", progress => readSqlDump(files.pagelinks, progress), state, stateFile, async (batch, resumed) => {
+      if (resumed) return;
+      const links = batch
+        .filter(row => row.pl_from_namespace === "0")
+        .map(row => {
+          const title = targetTitle(row);
+          return { fromId: byDumpId.get(row.pl_from!), toId: title === undefined ? undefined : byTitle.get(title) };
+        })
+        .filter((l): l is { fromId: number; toId: number } => l.fromId !== undefined && l.toId !== undefined);
+      await store.importLinks(links);
+    });
+  }
+
+  state.stage = "done";
+  saveState(stateFile, state);
+  console.log(`Imported ${byTitle.size} pages into the link graph store`);
+}
+
+// File names are the URI-encoded title, which fixture loading decodes again;
+// titles too long for a file name fall back to a hash (the JSON keeps the title)
+function fixtureFileName(title: string): string {
+  const encoded = encodeURIComponent(title);
+  return encoded.length <= 200 ? `${encoded}.json` : `${createHash("sha1").update(title).digest("hex")}.json`;
+}
+
+async function importXml(input: string, out: string, limit: number, state: ImportState, stateFile: string) {
+  fs.mkdirSync(out, { recursive: true });
+  const namespaces: Namespaces = new Map();
+
+  await runStage("pages", progress => readXmlDump(input, namespaces, progress), state, stateFile, async (batch, resumed) => {
+    if (resumed) return;
+    for (const page of batch as XmlPage[]) {
+      if (page.namespace !== 0 || state.written >= limit) continue;
+      const title = toTitleKey(page.title);
+      const fixture = page.redirect
+        ? { title, redirect: toTitleKey(page.redirect) }
+        : (() => {
+            const rendered = renderWikitext(page.text, namespaces);
+            return {
+              title,
+              html: rendered.html,
+              links: rendered.links,
+              categories: rendered.categories,
+              disambiguation: rendered.isDisambiguation,
+            };
+          })();
+      await fs.promises.writeFile(path.join(out, fixtureFileName(title)), JSON.stringify(fixture));
+      state.written++;
+    }
+  });
+
+  state.stage = "done";
+  saveState(stateFile, state);
+  console.log(`Wrote ${state.written} fixtures to ${out}`);
+}
+
+async function main() {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      page: { type: "string" },
+      redirect: { type: "string" },
+      pagelinks: { type: "string" },
+      linktarget: { type: "string" },
+      input: { type: "string" },
+      out: { type: "string" },
+      limit: { type: "string" },
+      state: { type: "string" },
+      restart: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  const mode = positionals[0];
+  if (values.help || (mode !== "sql" && mode !== "xml")) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const stateFile = values.state || `.cache/import-${mode}.state.json`;
+
+  if (mode === "sql") {
+    if (!values.page || !values.redirect || !values.pagelinks) {
+      throw new Error("sql mode needs --page, --redirect and --pagelinks");
+    }
+    if (!linkGraphStore) {
+      throw new Error("sql mode writes to Postgres; set DATABASE_URL");
+    }
+    const files: SqlFiles = {
+      page: values.page,
+      redirect: values.redirect,
+      pagelinks: values.pagelinks,
+      linktarget: values.linktarget,
+    };
+    const inputs = [files.page, files.redirect, files.pagelinks, files.linktarget ?? ""].map(f => f && path.resolve(f));
+    const state = loadState(stateFile, mode, inputs, values.restart!);
+    if (state.stage === "done") {
+      console.log("Import already complete; pass --restart to run it again");
+      return;
+    }
+    await importSql(linkGraphStore, files, state, stateFile);
+  } else {
+    if (!values.input || !values.out) {
+      throw new Error("xml mode needs --input and --out");
+    }
+    const limit = values.limit ? Number(values.limit) : Infinity;
+    if (Number.isNaN(limit) || limit <= 0) {
+      throw new Error("--limit must be a positive number");
+    }
+    const state = loadState(stateFile, mode, [path.resolve(values.input), path.resolve(values.out)], values.restart!);
+    if (state.stage === "done") {
+      console.log("Import already complete; pass --restart to run it again");
+      return;
+    }
+    await importXml(values.input, values.out, limit, state, stateFile);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool?.end());
@@ -0,0 +1,31 @@
+import type { PathStep } from "@shared/schema";
+import { readArticleToken } from "./article-tokens";
+import { mayReadArticle, mayRevealSolution } from "./sessions";
+
+// Why an article request should not be served, or null if it may be.
+// Requests carry the token of the game they are made for.
+export async function articleAccessDenial(token: string | undefined, article: PathStep): Promise<string | null> {
+  if (!token) return "A game token is required to read articles";
+
+  const gameId = readArticleToken(token);
+  if (!gameId) return "The game token is invalid or has expired";
+
+  if (!(await mayReadArticle(gameId, article))) {
+    return "This article has not been reached in your game";
+  }
+  return null;
+}
+
+// Why optimal routes between two articles should not be shown, or null if
+// they may be. Like articles, they need the token of the game they are for.
+export function solutionAccessDenial(token: string | undefined, from: PathStep, to: PathStep): string | null {
+  if (!token) return "A game token is required to see optimal routes";
+
+  const gameId = readArticleToken(token);
+  if (!gameId) return "The game token is invalid or has expired";
+
+  if (!mayRevealSolution(gameId, from, to)) {
+    return "Optimal routes are shown for your own game once it is over";
+  }
+  return null;
+}
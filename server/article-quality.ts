@@ -0,0 +1,69 @@
+import type { ArticleSource } from "./article-source";
+
+export interface QualityRules {
+  minBytes: number;
+  minOutgoingLinks: number;
+  minInboundLinks: number;
+  excludeDisambiguation: boolean;
+  excludeLists: boolean;
+  excludeYears: boolean;
+}
+
+export type RejectionReason =
+  | "missing"
+  | "list"
+  | "year"
+  | "disambiguation"
+  | "too_short"
+  | "few_outgoing_links"
+  | "few_inbound_links";
+
+export interface Rejection {
+  title: string;
+  reason: RejectionReason;
+}
+
+const LIST_TITLE = /^(Lists?|Index|Outline|Timeline|Glossary)_of_/;
+// "1987", "44_BC", "AD_79", "1990s", "19th_century", "2nd_millennium_BC"
+const YEAR_TITLE = /^((AD_)?\d{1,4}(_(BC|AD|BCE|CE))?|\d{1,4}0s(_BC)?|\d{1,2}(st|nd|rd|th)_(century|millennium)(_BC)?)$/;
+
+// Splits random candidates into usable articles and rejections. Checks run
+// from cheapest to most expensive and stop at the first failure, so link
+// counts are only fetched for candidates that passed everything else.
+export async function screenCandidates(
+  source: ArticleSource,
+  titles: string[],
+  rules: QualityRules,
+): Promise<{ accepted: string[]; rejected: Rejection[] }> {
+  const info = new Map((await source.getPageInfo(titles)).map(page => [page.title, page]));
+
+  const verdicts = await Promise.all(
+    titles.map(async (title): Promise<RejectionReason | null> => {
+      const page = info.get(title);
+      if (!page) return "missing";
+      if (rules.excludeLists && LIST_TITLE.test(title)) return "list";
+      if (rules.excludeYears && YEAR_TITLE.test(title)) return "year";
+      if (rules.excludeDisambiguation && page.isDisambiguation) return "disambiguation";
+      if (page.length < rules.minBytes) return "too_short";
+      if (rules.minOutgoingLinks > 0 && (await source.getLinks(title)).length < rules.minOutgoingLinks) {
+        return "few_outgoing_links";
+      }
+      if (
+        rules.minInboundLinks > 0 &&
+        (await source.getBacklinks(title, rules.minInboundLinks)).length < rules.minInboundLinks
+      ) {
+        return "few_inbound_links";
+      }
+      return null;
+    }),
+  );
+
+  const accepted: string[] = [];
+  const rejected: Rejection[] = [];
+  titles.forEach((title, i) => {
+    const reason = verdicts[i];
+    if (reason) rejected.push({ title, reason });
+    else accepted.push(title);
+  });
+  return { accepted, rejected };
+}
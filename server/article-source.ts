@@ -0,0 +1,82 @@
+import type { LanguageLink, TitleMatch } from "@shared/schema";
+
+export type { LanguageLink, TitleMatch };
+
+// Article as delivered by a source, before any HTML transformation
+export interface RawArticle {
+  title: string;
+  // Redirects followed from the requested title, in order
+  redirects: string[];
+  html: string;
+  links: string[];
+  // Sites are language codes, as the wiki reports them
+  languageLinks: LanguageLink[];
+  // Absent for sources without page history
+  revisionId?: number;
+}
+
+export interface ResolvedTitle {
+  title: string;
+  // Titles passed through on the way to `title`, in order
+  redirects: string[];
+  namespace: number;
+  isDisambiguation: boolean;
+}
+
+// Page metadata cheap enough to fetch for a whole batch of titles
+export interface PageInfo {
+  title: string;
+  // Size of the page source in bytes
+  length: number;
+  isDisambiguation: boolean;
+}
+
+// What a wiki says about itself, needed to tell articles from other pages
+export interface SiteInfo {
+  // Path articles are served under, with $1 standing for the title ("/wiki/$1")
+  articlePath: string;
+  // Names and aliases of every namespace except the main one, lowercased and
+  // in underscore form ("user_talk", "benutzer")
+  namespacePrefixes: string[];
+}
+
+// Backend that articles, links and random titles are read from.
+// Titles are always exchanged in underscore form ("United_States").
+export interface ArticleSource {
+  // Unique per wiki; names the source's disk cache directory
+  readonly name: string;
+  getSiteInfo(): Promise<SiteInfo>;
+  // With `at`, the revision that was current at that time rather than the
+  // latest one. Pages created after `at` are served as they are now.
+  getArticle(title: string, at?: Date): Promise<RawArticle>;
+  // Canonical titles of the existing articles `title` links to
+  getLinks(title: string): Promise<string[]>;
+  // Canonical titles of articles linking to `title`, at most `limit` of them
+  getBacklinks(title: string, limit: number): Promise<string[]>;
+  getRandomTitles(count: number): Promise<string[]>;
+  // Info for each existing page among `titles`, in no particular order
+  getPageInfo(titles: string[]): Promise<PageInfo[]>;
+  // Of `categories` (names without the "Category:" prefix), the ones each of
+  // `titles` is directly in. Titles in none of them are left out.
+  findCategories(titles: string[], categories: string[]): Promise<Map<string, string[]>>;
+  // Follows redirects; resolves to null when the page does not exist
+  resolveTitle(title: string): Promise<ResolvedTitle | null>;
+  // Existing article titles close to a misspelled or missing one
+  suggestTitles(query: string, limit: number): Promise<string[]>;
+  // Articles whose title starts with `prefix`; redirects are folded into
+  // the article they point to
+  searchTitles(prefix: string, limit: number): Promise<TitleMatch[]>;
+}
+
+export class ArticleNotFoundError extends Error {
+  status = 404;
+
+  constructor(public title: string, message = "Article not found") {
+    super(message);
+    this.name = "ArticleNotFoundError";
+  }
+}
+
+export function toTitleKey(title: string): string {
+  return title.trim().replace(/ /g, "_");
+}
@@ -0,0 +1,27 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { config } from "./config";
+
+const secret = config.articleAccess.secret || randomBytes(32).toString("hex");
+
+function sign(payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+// "<gameId>.<expiry ms>.<signature>", valid for one game session only
+export function issueArticleToken(gameId: string): string {
+  const payload = `${gameId}.${Date.now() + config.articleAccess.tokenTtlMs}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+// The game a token was issued for, or null if it is forged or expired
+export function readArticleToken(token: string): string | null {
+  const cut = token.lastIndexOf(".");
+  if (cut < 0) return null;
+  const payload = token.slice(0, cut);
+  const signature = Buffer.from(token.slice(cut + 1));
+  const expected = Buffer.from(sign(payload));
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) return null;
+
+  const [gameId, expiry] = payload.split(".");
+  return Number(expiry) > Date.now() ? gameId : null;
+}
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { load } from "cheerio";
+import type { SiteInfo } from "./article-source";
+import {
+  removeNavboxes,
+  rewriteWikiLinks,
+  stripReferences,
+  transformArticleHtml,
+  type ArticlePass,
+} from "./article-transform";
+
+const site: SiteInfo = {
+  articlePath: "/wiki/$1",
+  namespacePrefixes: ["category", "file", "help", "talk", "wikipedia"],
+};
+
+// The fragment after a single pass, without sanitization
+function runPass(pass: ArticlePass, html: string): string {
+  const $ = load(html, null, false);
+  pass($, site);
+  return $.html();
+}
+
+test("internal links become data-wiki-link anchors", () => {
+  assert.equal(
+    runPass(rewriteWikiLinks, '<a href="/wiki/United_States#History" title="United States">the <b>US</b></a>'),
+    '<a href="#" data-wiki-link="United_States" class="wiki-link">the <b>US</b></a>',
+  );
+  assert.equal(
+    runPass(rewriteWikiLinks, '<a href="/wiki/Caf%C3%A9">café</a>'),
+    `<a href="#" data-wiki-link="${encodeURIComponent("Café")}" class="wiki-link">café</a>`,
+  );
+  // A colon does not make a namespace unless the prefix is one
+  assert.equal(
+    runPass(rewriteWikiLinks, '<a href="/wiki/Star_Wars:_Episode_IV">film</a>'),
+    '<a href="#" data-wiki-link="Star_Wars%3A_Episode_IV" class="wiki-link">film</a>',
+  );
+});
+
+test("namespace and red links become plain text", () => {
+  assert.equal(
+    runPass(rewriteWikiLinks, '<a href="/wiki/Category:Planets">Planets</a>'),
+    '<span class="text-muted-foreground">Planets</span>',
+  );
+  assert.equal(
+    runPass(rewriteWikiLinks, '<a href="/wiki/file:Earth.jpg">image</a>'),
+    '<span class="text-muted-foreground">image</span>',
+  );
+  assert.equal(
+    runPass(rewriteWikiLinks, '<a href="/w/index.php?title=Nowhere&amp;action=edit&amp;redlink=1" class="new">Nowhere</a>'),
+    '<span class="text-muted-foreground">Nowhere</span>',
+  );
+});
+
+test("links outside the article path are left to later passes", () => {
+  const html = '<a href="https://example.org/" class="external">elsewhere</a>';
+  assert.equal(runPass(rewriteWikiLinks, html), html);
+});
+
+test("navboxes and metadata are removed with everything nested in them", () => {
+  const html = [
+    '<table class="metadata ambox"><tr><td><div><div>Needs citations</div></div></td></tr></table>',
+    "<p>Body</p>",
+    '<div class="navbox"><div><div class="navbox"><div>Inner</div></div></div><table><tr><td>Row</td></tr></table></div>',
+    '<div id="catlinks"><ul><li>Category</li></ul></div>',
+  ].join("");
+  assert.equal(runPass(removeNavboxes, html), "<p>Body</p>");
+});
+
+test("reference lists are removed whole, even with nested divs", () => {
+  const html = '<p>Fact<sup class="reference">[1]</sup></p><div class="reflist"><div><div>Source</div></div><ol class="references"><li>Cite</li></ol></div><p>After</p>';
+  assert.equal(runPass(stripReferences, html), "<p>Fact</p><p>After</p>");
+});
+
+test("the full pipeline leaves well-formed markup", () => {
+  const html = [
+    '<div class="mw-parser-output">',
+    '<h2>History<span class="mw-editsection">[<a href="/w/index.php?action=edit">edit</a>]</span></h2>',
+    '<p>See <a href="/wiki/Moon">the Moon</a> and <a href="https://example.org/">a site</a>.</p>',
+    '<div class="navbox"><div><div>Nav</div></div></div>',
+    "<p></p>",
+    "</div>",
+  ].join("");
+  const output = transformArticleHtml(html, site);
+
+  assert.equal(
+    output,
+    '<div class="mw-parser-output"><h2>History</h2><p>See <a href="#" data-wiki-link="Moon" class="wiki-link">the Moon</a> and a site.</p></div>',
+  );
+  assert.equal(load(output, null, false).html(), output);
+});
@@ -0,0 +1,101 @@
+import { load, type CheerioAPI } from "cheerio";
+import type { SiteInfo } from "./article-source";
+import { sanitizeDom } from "./sanitize";
+
+// A pass mutates the parsed article body in place. Passes are independent of
+// each other so they can be reordered, dropped or exercised on their own.
+export type ArticlePass = ($: CheerioAPI, site: SiteInfo) => void;
+
+// Titles in a namespace other than the main one are not articles. A colon
+// alone proves nothing: "Star_Wars:_Episode_IV" is an article.
+export function isArticleLink(title: string, site: SiteInfo): boolean {
+  const colon = title.indexOf(":");
+  return colon < 0 || !site.namespacePrefixes.includes(title.slice(0, colon).toLowerCase());
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+export const removeEditSections: ArticlePass = ($) => {
+  $(".mw-editsection").remove();
+};
+
+export const stripReferences: ArticlePass = ($) => {
+  $("sup.reference, .reflist, .mw-references-wrap, ol.references").remove();
+};
+
+// Navigation boxes and maintenance notices ("metadata"), with all they contain
+export const removeNavboxes: ArticlePass = ($) => {
+  $(".navbox, .navbox-styles, .vertical-navbox, .metadata, .mw-authority-control, #catlinks").remove();
+};
+
+// Internal links become `<a href="#" data-wiki-link="<encoded title>">`, which
+// is what the client listens for; links to other namespaces and red links to
+// missing articles (class "new") become plain text.
+export const rewriteWikiLinks: ArticlePass = ($, site) => {
+  const prefix = site.articlePath.split("$1")[0];
+  $("a[href]").each((_, element) => {
+    const link = $(element);
+    const href = link.attr("href")!;
+    const isRedLink = link.hasClass("new");
+    if (!isRedLink && !href.startsWith(prefix)) return;
+    const articleTitle = safeDecode(href.slice(prefix.length)).split("#")[0].replace(/ /g, "_");
+
+    if (isRedLink || !articleTitle || !isArticleLink(articleTitle, site)) {
+      link.replaceWith($("<span>").addClass("text-muted-foreground").append(link.contents()));
+      return;
+    }
+
+    link.replaceWith(
+      $("<a>")
+        .attr("href", "#")
+        .attr("data-wiki-link", encodeURIComponent(articleTitle))
+        .addClass("wiki-link")
+        .append(link.contents()),
+    );
+  });
+};
+
+export const flattenExternalLinks: ArticlePass = ($) => {
+  $('a.external, a[href^="http:"], a[href^="https:"], a[href^="//"]').each((_, element) => {
+    $(element).replaceWith($(element).contents());
+  });
+};
+
+export const removeEmptyParagraphs: ArticlePass = ($) => {
+  $("p").each((_, element) => {
+    const paragraph = $(element);
+    if (paragraph.children().length === 0 && !paragraph.text().trim()) {
+      paragraph.remove();
+    }
+  });
+};
+
+export const defaultArticlePasses: ArticlePass[] = [
+  removeEditSections,
+  stripReferences,
+  removeNavboxes,
+  rewriteWikiLinks,
+  flattenExternalLinks,
+  removeEmptyParagraphs,
+];
+
+// Sanitization always runs last and is not part of the pass list, so no choice
+// of passes can let unsafe markup through.
+export function transformArticleHtml(
+  html: string,
+  site: SiteInfo,
+  passes: ArticlePass[] = defaultArticlePasses,
+): string {
+  const $ = load(html, null, false);
+  for (const pass of passes) {
+    pass($, site);
+  }
+  sanitizeDom($);
+  return $.html();
+}
@@ -0,0 +1,215 @@
+import { config } from "./config";
+import fs from "fs";
+import path from "path";
+import type { Article } from "@shared/schema";
+import { normalizeTitle } from "@shared/titles";
+import type { ArticleSource, SiteInfo } from "./article-source";
+import { screenCandidates } from "./article-quality";
+import { deploymentPolicy, findViolations, type ContentPolicy } from "./content-policy";
+import { TieredCache } from "./cache";
+import { transformArticleHtml } from "./article-transform";
+import { linkGraphStore } from "./graph-store";
+import { WikipediaArticleSource } from "./sources/wikipedia";
+import { FixtureArticleSource } from "./sources/fixtures";
+
+// A wiki games can be played on, with its own source and article cache
+export interface Site {
+  // Wikipedia language code ("de") or the URL of another MediaWiki
+  id: string;
+  source: ArticleSource;
+  info: SiteInfo;
+  cache: TieredCache<Article>;
+}
+
+export class UnknownSiteError extends Error {
+  status = 400;
+
+  constructor(public site: string, message = `Unknown or unreachable wiki "${site}"`) {
+    super(message);
+    this.name = "UnknownSiteError";
+  }
+}
+
+const LANGUAGE_CODE = /^[a-z][a-z0-9]{1,11}(-[a-z0-9]+)*$/;
+
+// Language codes are lowercased, URLs reduced to origin and path
+export function normalizeSiteId(site?: string): string {
+  const raw = site?.trim() || config.sites.default;
+  if (LANGUAGE_CODE.test(raw.toLowerCase())) return raw.toLowerCase();
+
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new UnknownSiteError(raw);
+  }
+  return `${url.origin}${url.pathname.replace(/\/+$/, "")}`;
+}
+
+export const defaultSiteId = normalizeSiteId();
+
+// API endpoints worth trying for a site, most likely first
+function apiUrlsFor(id: string): string[] {
+  if (id === defaultSiteId && config.articleSource.wikipediaApi) return [config.articleSource.wikipediaApi];
+  if (LANGUAGE_CODE.test(id)) return [`https://${id}.wikipedia.org/w/api.php`];
+  if (id.endsWith(".php")) return [id];
+  return [`${id}/w/api.php`, `${id}/api.php`];
+}
+
+// With fixtures, only sites that have a fixture directory exist
+function fixtureSourcesFor(id: string): ArticleSource[] {
+  if (id === defaultSiteId) return [new FixtureArticleSource(config.articleSource.fixturesDir)];
+  const dir = path.join(config.articleSource.fixtureSitesDir, id);
+  return LANGUAGE_CODE.test(id) && fs.existsSync(dir) ? [new FixtureArticleSource(dir, `fixtures-${id}`)] : [];
+}
+
+async function createSite(id: string): Promise<Site> {
+  const candidates: ArticleSource[] =
+    config.articleSource.kind === "fixtures"
+      ? fixtureSourcesFor(id)
+      : apiUrlsFor(id).map(url => new WikipediaArticleSource(url));
+
+  for (const source of candidates) {
+    let info: SiteInfo;
+    try {
+      info = await source.getSiteInfo();
+    } catch (error) {
+      console.error(`Error loading site info for ${source.name}:`, error);
+      continue;
+    }
+    return {
+      id,
+      source,
+      info,
+      cache: new TieredCache<Article>({
+        maxEntries: config.articleCache.maxEntries,
+        memoryTtlMs: config.articleCache.memoryTtlMs,
+        // Keep one directory per backend so switching sources never serves stale pages
+        diskDir: config.articleCache.diskDir && path.join(config.articleCache.diskDir, source.name),
+        diskTtlMs: config.articleCache.diskTtlMs,
+      }),
+    };
+  }
+  throw new UnknownSiteError(id);
+}
+
+const sites = new Map<string, Promise<Site>>();
+
+export async function getSite(site?: string): Promise<Site> {
+  const id = normalizeSiteId(site);
+  if (id !== defaultSiteId && !LANGUAGE_CODE.test(id)) {
+    if (!config.sites.allowCustom) {
+      throw new UnknownSiteError(id, "This server only hosts games on Wikipedia");
+    }
+    if (!id.startsWith("https://")) {
+      throw new UnknownSiteError(id, "Wikis must be reached over https");
+    }
+  }
+
+  let loading = sites.get(id);
+  if (!loading) {
+    // Evict the oldest site; Maps iterate in insertion order
+    if (sites.size >= config.sites.maxLoaded) {
+      const [oldestId, oldest] = sites.entries().next().value!;
+      sites.delete(oldestId);
+      oldest.then(evicted => evicted.cache.close(), () => {});
+    }
+    loading = createSite(id);
+    sites.set(id, loading);
+    loading.catch(() => sites.delete(id));
+  }
+  return loading;
+}
+
+// Cache counters of every site loaded so far, keyed by site id
+export async function cacheStats(): Promise<Record<string, ReturnType<TieredCache<Article>["stats"]>>> {
+  const loaded = await Promise.allSettled(Array.from(sites.values()));
+  const stats: Record<string, ReturnType<TieredCache<Article>["stats"]>> = {};
+  for (const result of loaded) {
+    if (result.status === "fulfilled") stats[result.value.id] = result.value.cache.stats();
+  }
+  return stats;
+}
+
+// Random articles that the content policy allows and that pass the quality
+// filter. Candidates are drawn in batches; if too few pass the quality
+// filter, the remainder is filled with allowed candidates that failed it
+// rather than failing the game. Content violations are never let through.
+export async function getRandomArticles(
+  site: Site,
+  count: number = 2,
+  policy: ContentPolicy = deploymentPolicy,
+): Promise<string[]> {
+  const { source } = site;
+  const rules = config.randomQuality;
+  const picked: string[] = [];
+  const fallback: string[] = [];
+
+  for (let batch = 0; batch < rules.maxBatches && picked.length < count; batch++) {
+    const size = Math.max(rules.batchSize, count);
+    const drawn = (policy.allowlist ? drawFrom(Array.from(policy.allowlist), size) : await source.getRandomTitles(size))
+      .filter(title => !picked.includes(title));
+
+    const violations = await findViolations(source, drawn, policy);
+    const candidates = drawn.filter(title => !violations.has(title));
+    const { accepted, rejected } = await screenCandidates(source, candidates, rules);
+    const reasons = [
+      ...Array.from(violations.keys()).map(title => `${title} (content policy)`),
+      ...rejected.map(r => `${r.title} (${r.reason})`),
+    ];
+    if (reasons.length > 0) {
+      console.log("Rejected random articles:", reasons.join(", "));
+    }
+
+    picked.push(...accepted.slice(0, count - picked.length));
+    for (const { title, reason } of rejected) {
+      if (reason !== "missing" && !fallback.includes(title)) fallback.push(title);
+    }
+  }
+
+  if (picked.length < count) {
+    console.warn(`Only ${picked.length} of ${count} random articles passed the quality filter`);
+    picked.push(...fallback.slice(0, count - picked.length));
+  }
+  return picked;
+}
+
+function drawFrom(titles: string[], count: number): string[] {
+  const pool = titles.slice();
+  const drawn: string[] = [];
+  while (drawn.length < count && pool.length > 0) {
+    drawn.push(pool.splice(Math.floor(Math.random() * pool.length), 1)[0]);
+  }
+  return drawn;
+}
+
+// With `pinnedAt` (ms since epoch), the article as it was at that time.
+// Games pin to shared timestamps (a room's round, or the day's start), so
+// their players share the cache entry too.
+export async function getArticleContent(site: Site, title: string, pinnedAt?: number): Promise<Article> {
+  const key = normalizeTitle(title);
+  return site.cache.getOrLoad(pinnedAt ? `${key}@${pinnedAt}` : key, () =>
+    loadArticleContent(site, title, pinnedAt),
+  );
+}
+
+async function loadArticleContent(site: Site, title: string, pinnedAt?: number): Promise<Article> {
+  const raw = await site.source.getArticle(title, pinnedAt ? new Date(pinnedAt) : undefined);
+
+  // Grow the local link graph with every article players actually load. The
+  // store holds a single wiki's graph, that of the default site.
+  if (site.id === defaultSiteId) {
+    linkGraphStore?.recordArticle(raw.title, raw.redirects, raw.links).catch(error => {
+      console.error("Error recording article links:", error);
+    });
+  }
+
+  return {
+    title: raw.title,
+    redirects: raw.redirects,
+    content: transformArticleHtml(raw.html, site.info),
+    links: raw.links,
+    languageLinks: raw.languageLinks,
+    revisionId: raw.revisionId,
+  };
+}
@@ -0,0 +1,182 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Express, Request } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { registerRequestSchema, type PublicUser, type User as StoredUser } from "@shared/schema";
+import { config } from "./config";
+import { pool } from "./db";
+import { generateName } from "./names";
+import { UsernameTakenError, storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends StoredUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const KEY_LENGTH = 64;
+
+// "<hash>.<salt>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function sessionStore(): session.Store {
+  if (pool) {
+    const PgStore = connectPg(session);
+    return new PgStore({ pool, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+// Shared with the socket server, so sockets know who opened them
+export const sessionMiddleware = session({
+  store: sessionStore(),
+  secret: config.auth.sessionSecret || randomBytes(32).toString("hex"),
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    maxAge: config.auth.sessionMaxAgeMs,
+    httpOnly: true,
+    sameSite: "lax",
+    secure: "auto",
+  },
+});
+
+passport.use(
+  new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false, { message: "Wrong username or password" });
+      }
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }),
+);
+
+passport.serializeUser((user, done) => done(null, user.id));
+
+// A session whose account is gone (a restart of the in-memory storage)
+// simply ends up logged out
+passport.deserializeUser(async (id: string, done) => {
+  try {
+    done(null, (await storage.getUser(id)) ?? false);
+  } catch (error) {
+    done(error);
+  }
+});
+
+export function toPublicUser(user: StoredUser): PublicUser {
+  return {
+    id: user.id,
+    username: user.username,
+    displayName: user.displayName,
+    isGuest: user.username === null,
+  };
+}
+
+function logIn(req: Request, user: StoredUser): Promise<void> {
+  return new Promise((resolve, reject) => req.login(user, error => (error ? reject(error) : resolve())));
+}
+
+export function setupAuth(app: Express): void {
+  // Behind a proxy, secure cookies work over its https once it is trusted
+  if (config.auth.trustProxyHops > 0) app.set("trust proxy", config.auth.trustProxyHops);
+  app.use(sessionMiddleware);
+  app.use(passport.session());
+
+  app.get("/api/auth/user", (req, res) => {
+    if (!req.user) {
+      res.status(401).json({ error: "Not logged in" });
+      return;
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  // An account without credentials, for playing without registering
+  app.post("/api/auth/guest", async (req, res) => {
+    try {
+      if (!req.user) {
+        await logIn(req, await storage.createUser({ displayName: generateName() }));
+      }
+      res.json(toPublicUser(req.user!));
+    } catch (error) {
+      console.error("Error creating guest:", error);
+      res.status(500).json({ error: "Failed to create guest" });
+    }
+  });
+
+  // Creates an account, or gives the current guest credentials so its
+  // history carries over
+  app.post("/api/auth/register", async (req, res) => {
+    const parsed = registerRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.issues[0].message });
+      return;
+    }
+
+    try {
+      const { username, password, displayName } = parsed.data;
+      const credentials = { username, passwordHash: await hashPassword(password) };
+      const guest = req.user?.username === null ? req.user : undefined;
+      const user = guest
+        ? await storage.updateUser(guest.id, { ...credentials, displayName: displayName ?? guest.displayName })
+        : await storage.createUser({ ...credentials, displayName: displayName ?? username });
+      if (!user) {
+        res.status(404).json({ error: "Guest account not found" });
+        return;
+      }
+      await logIn(req, user);
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof UsernameTakenError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error("Error registering:", error);
+      res.status(500).json({ error: "Failed to register" });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", async (error: unknown, user: StoredUser | false, info?: { message?: string }) => {
+      if (error) return next(error);
+      if (!user) {
+        res.status(401).json({ error: info?.message ?? "Wrong username or password" });
+        return;
+      }
+      try {
+        await logIn(req, user);
+        res.json(toPublicUser(user));
+      } catch (error) {
+        next(error);
+      }
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout(error => {
+      if (error) return next(error);
+      res.status(204).end();
+    });
+  });
+}
@@ -0,0 +1,195 @@
+import fs from "fs/promises";
+import path from "path";
+import { createHash } from "crypto";
+
+export interface CacheStats {
+  memoryHits: number;
+  diskHits: number;
+  misses: number;
+  dedupedLoads: number;
+  memoryEntries: number;
+}
+
+interface Entry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+// In-memory LRU relying on Map insertion order: a read re-inserts the entry,
+// so the first key is always the least recently used one.
+export class LruCache<V> {
+  private entries = new Map<string, Entry<V>>();
+
+  constructor(private maxEntries: number, private ttlMs: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+// Expired files are swept at most this often
+const DISK_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// One JSON file per key. Failures are logged and treated as misses so a
+// read-only or full disk degrades to memory-only caching. Expired files are
+// removed when read and by a periodic sweep, so the directory stays bounded
+// by what was written within one TTL. Call close() once the cache is no
+// longer used, to stop the sweep.
+export class DiskCache<V> {
+  private pruneTimer: NodeJS.Timeout;
+
+  constructor(private dir: string, private ttlMs: number) {
+    this.prune();
+    this.pruneTimer = setInterval(() => this.prune(), Math.min(ttlMs, DISK_PRUNE_INTERVAL_MS));
+    this.pruneTimer.unref();
+  }
+
+  close(): void {
+    clearInterval(this.pruneTimer);
+  }
+
+  private fileFor(key: string): string {
+    const hash = createHash("sha1").update(key).digest("hex");
+    return path.join(this.dir, `${hash}.json`);
+  }
+
+  async get(key: string): Promise<V | undefined> {
+    try {
+      const raw = await fs.readFile(this.fileFor(key), "utf-8");
+      const entry: Entry<V> & { key: string } = JSON.parse(raw);
+      if (entry.key !== key) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        await this.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    } catch (error: any) {
+      if (error.code !== "ENOENT") console.warn("Disk cache read failed:", error);
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: V): Promise<void> {
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      const entry = { key, value, expiresAt: Date.now() + this.ttlMs };
+      await fs.writeFile(this.fileFor(key), JSON.stringify(entry));
+    } catch (error) {
+      console.warn("Disk cache write failed:", error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  // Deletes files older than the TTL. A file is written whole on every set,
+  // so its modification time is when its entry was stored.
+  async prune(): Promise<void> {
+    try {
+      const names = await fs.readdir(this.dir);
+      const cutoff = Date.now() - this.ttlMs;
+      for (const name of names) {
+        if (!name.endsWith(".json")) continue;
+        const file = path.join(this.dir, name);
+        const stat = await fs.stat(file).catch(() => undefined);
+        if (stat && stat.mtimeMs <= cutoff) await fs.rm(file, { force: true });
+      }
+    } catch (error: any) {
+      if (error.code !== "ENOENT") console.warn("Disk cache prune failed:", error);
+    }
+  }
+}
+
+export interface TieredCacheOptions {
+  maxEntries: number;
+  memoryTtlMs: number;
+  // Disk tier is skipped when no directory is given
+  diskDir?: string;
+  diskTtlMs: number;
+}
+
+// Memory LRU in front of an optional disk tier. Concurrent misses for the
+// same key share a single call to the loader.
+export class TieredCache<V> {
+  private memory: LruCache<V>;
+  private disk?: DiskCache<V>;
+  private inFlight = new Map<string, Promise<V>>();
+  private counters = { memoryHits: 0, diskHits: 0, misses: 0, dedupedLoads: 0 };
+
+  constructor(options: TieredCacheOptions) {
+    this.memory = new LruCache(options.maxEntries, options.memoryTtlMs);
+    if (options.diskDir) {
+      this.disk = new DiskCache(options.diskDir, options.diskTtlMs);
+    }
+  }
+
+  async getOrLoad(key: string, load: () => Promise<V>): Promise<V> {
+    const cached = this.memory.get(key);
+    if (cached !== undefined) {
+      this.counters.memoryHits++;
+      return cached;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.counters.dedupedLoads++;
+      return pending;
+    }
+
+    const promise = this.fill(key, load).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  private async fill(key: string, load: () => Promise<V>): Promise<V> {
+    const stored = await this.disk?.get(key);
+    if (stored !== undefined) {
+      this.counters.diskHits++;
+      this.memory.set(key, stored);
+      return stored;
+    }
+
+    this.counters.misses++;
+    const value = await load();
+    this.memory.set(key, value);
+    await this.disk?.set(key, value);
+    return value;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.memory.delete(key);
+    await this.disk?.delete(key);
+  }
+
+  // Stops background work; reads and writes still succeed afterwards
+  close(): void {
+    this.disk?.close();
+  }
+
+  stats(): CacheStats {
+    return { ...this.counters, memoryEntries: this.memory.size };
+  }
+}
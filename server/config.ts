@@ -0,0 +1,141 @@
+// Runtime configuration, read once from the environment at startup.
+
+function readEnum<T extends string>(name: string, values: readonly T[], fallback: T): T {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  if (!values.includes(raw as T)) {
+    throw new Error(`${name} must be one of ${values.join(", ")} (got "${raw}")`);
+  }
+  return raw as T;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new Error(`${name} must be a number (got "${raw}")`);
+  }
+  return value;
+}
+
+function readBoolean(name: string, fallback: boolean): boolean {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  if (raw !== "true" && raw !== "false") {
+    throw new Error(`${name} must be true or false (got "${raw}")`);
+  }
+  return raw === "true";
+}
+
+// "wikipedia" talks to the live MediaWiki API, "fixtures" serves a local
+// directory of articles so the game runs without network access.
+const articleSourceKind = readEnum("ARTICLE_SOURCE", ["wikipedia", "fixtures"] as const, "wikipedia");
+// Fixture articles are a handful of short hand-written pages, so size and
+// link-count thresholds meant for Wikipedia would reject every one of them
+const fixtureSource = articleSourceKind === "fixtures";
+
+export const config = {
+  articleSource: {
+    kind: articleSourceKind,
+    // API URL for the default site; other sites derive theirs from the site id
+    wikipediaApi: process.env.WIKIPEDIA_API || "",
+    fixturesDir: process.env.ARTICLE_FIXTURES_DIR || "fixtures/articles",
+    // Fixtures for other sites, one subdirectory per language code ("de/")
+    fixtureSitesDir: process.env.ARTICLE_FIXTURE_SITES_DIR || "fixtures/sites",
+  },
+  sites: {
+    // Wikipedia language code ("en", "de", "simple") or a MediaWiki URL that
+    // games use unless they pick another site. With ARTICLE_SOURCE=fixtures
+    // the fixtures stand in for this site.
+    default: process.env.DEFAULT_SITE || "en",
+    // Lets games name any https MediaWiki by URL. Off by default because the
+    // server then fetches from hosts chosen by players.
+    allowCustom: readBoolean("ALLOW_CUSTOM_SITES", false),
+    maxLoaded: readNumber("MAX_LOADED_SITES", 50),
+  },
+  articleCache: {
+    maxEntries: readNumber("ARTICLE_CACHE_MAX_ENTRIES", 500),
+    memoryTtlMs: readNumber("ARTICLE_CACHE_MEMORY_TTL_SECONDS", 10 * 60) * 1000,
+    // Set ARTICLE_CACHE_DIR to an empty string to keep the cache in memory only
+    diskDir: process.env.ARTICLE_CACHE_DIR ?? ".cache/articles",
+    diskTtlMs: readNumber("ARTICLE_CACHE_DISK_TTL_SECONDS", 24 * 60 * 60) * 1000,
+  },
+  solver: {
+    // "store" reads the Postgres link graph (complete after a dump import),
+    // fetching outgoing links from the source only for unrecorded pages
+    graph: readEnum("SOLVER_GRAPH", ["source", "store"] as const, "source"),
+    // Upper bounds; a request may ask for less but never for more
+    maxDepth: readNumber("SOLVER_MAX_DEPTH", 6),
+    maxNodes: readNumber("SOLVER_MAX_NODES", 400),
+    maxPaths: readNumber("SOLVER_MAX_PATHS", 5),
+    // Popular articles have millions of backlinks; only this many are followed
+    maxBacklinks: readNumber("SOLVER_MAX_BACKLINKS", 500),
+    concurrency: readNumber("SOLVER_CONCURRENCY", 8),
+  },
+  randomQuality: {
+    // Random candidates failing any of these are re-drawn; set a minimum to
+    // 0 to turn that check off
+    minBytes: readNumber("RANDOM_MIN_BYTES", fixtureSource ? 0 : 3000),
+    minOutgoingLinks: readNumber("RANDOM_MIN_OUTGOING_LINKS", fixtureSource ? 0 : 20),
+    minInboundLinks: readNumber("RANDOM_MIN_INBOUND_LINKS", fixtureSource ? 0 : 5),
+    excludeDisambiguation: readBoolean("RANDOM_EXCLUDE_DISAMBIGUATION", true),
+    excludeLists: readBoolean("RANDOM_EXCLUDE_LISTS", true),
+    excludeYears: readBoolean("RANDOM_EXCLUDE_YEARS", true),
+    batchSize: readNumber("RANDOM_BATCH_SIZE", 10),
+    maxBatches: readNumber("RANDOM_MAX_BATCHES", 5),
+  },
+  contentPolicy: {
+    // JSON file with the deployment's ContentPolicySettings (see shared/schema)
+    file: process.env.CONTENT_POLICY_FILE || "",
+    enforcement: readEnum("CONTENT_ENFORCEMENT", ["warn", "reject"] as const, "reject"),
+  },
+  game: {
+    timeLimitSeconds: readNumber("GAME_TIME_LIMIT_SECONDS", 180),
+    // Finished and abandoned sessions are dropped after this long
+    sessionRetentionMs: readNumber("GAME_SESSION_RETENTION_MINUTES", 60) * 60 * 1000,
+  },
+  articleAccess: {
+    // Signs per-game article tokens. Without it a random key is used, so
+    // tokens stop working on restart and differ between instances.
+    secret: process.env.ARTICLE_TOKEN_SECRET || "",
+    tokenTtlMs: readNumber("ARTICLE_TOKEN_TTL_SECONDS", 5 * 60) * 1000,
+    // What happens to article requests without a valid token, or for
+    // articles the game has not reached: "log" serves them anyway
+    enforcement: readEnum("ARTICLE_ACCESS", ["log", "block"] as const, "block"),
+    // Default for new games; casual games may ask to allow scouting
+    scoutingAllowed: readBoolean("ARTICLE_SCOUTING_ALLOWED", false),
+  },
+  auth: {
+    // Signs session cookies. Without it a random key is used, so everyone
+    // is logged out on restart. Sessions live in Postgres when DATABASE_URL
+    // is set, in memory otherwise.
+    sessionSecret: process.env.SESSION_SECRET || "",
+    sessionMaxAgeMs: readNumber("SESSION_MAX_AGE_DAYS", 30) * 24 * 60 * 60 * 1000,
+    // Reverse proxies in front of the server whose X-Forwarded-* headers are
+    // believed, for secure cookies and client addresses. 0 trusts none, as
+    // any client can send those headers.
+    trustProxyHops: readNumber("TRUST_PROXY_HOPS", 0),
+  },
+  pairs: {
+    // How long a difficulty-graded random pair may take to find. Attempts
+    // are not interrupted, so one slow solve can overrun it.
+    timeBudgetMs: readNumber("PAIR_TIME_BUDGET_SECONDS", 20) * 1000,
+    maxAttempts: readNumber("PAIR_MAX_ATTEMPTS", 50),
+  },
+  daily: {
+    // JSON file of hand-picked puzzles, {"2024-05-01": {"startArticle":
+    // "...", "targetArticle": "..."}}; other days get a generated one
+    puzzlesFile: process.env.DAILY_PUZZLES_FILE || "",
+    // Generated puzzles depend only on the date, this seed and the wiki, so
+    // instances sharing a seed agree without talking to each other
+    seed: process.env.DAILY_SEED || "wikigame",
+    // Comma-separated starting articles to draw from; missing ones are skipped
+    seedTitles: (process.env.DAILY_SEED_TITLES || "")
+      .split(",")
+      .map(title => title.trim())
+      .filter(Boolean),
+    // Links followed from the start to reach the target
+    walkSteps: readNumber("DAILY_WALK_STEPS", 3),
+  },
+};
@@ -0,0 +1,95 @@
+import fs from "fs";
+import { contentPolicySettingsSchema, type ContentPolicySettings } from "@shared/schema";
+import { normalizeTitle } from "@shared/titles";
+import { config } from "./config";
+import type { ArticleSource } from "./article-source";
+
+export interface ContentPolicy {
+  blockedTitles: Set<string>;
+  blockedCategories: Set<string>;
+  allowlist: Set<string> | null;
+  enforcement: "warn" | "reject";
+}
+
+export interface ContentViolation {
+  title: string;
+  message: string;
+}
+
+function titleSet(titles: string[] | undefined): Set<string> {
+  return new Set((titles || []).map(title => normalizeTitle(title.replace(/^Category:/i, ""))));
+}
+
+function loadDeploymentPolicy(): ContentPolicy {
+  const settings: ContentPolicySettings = config.contentPolicy.file
+    ? contentPolicySettingsSchema.parse(JSON.parse(fs.readFileSync(config.contentPolicy.file, "utf-8")))
+    : {};
+  return {
+    blockedTitles: titleSet(settings.blockedTitles),
+    blockedCategories: titleSet(settings.blockedCategories),
+    allowlist: settings.allowlist ? titleSet(settings.allowlist) : null,
+    enforcement: settings.enforcement ?? config.contentPolicy.enforcement,
+  };
+}
+
+export const deploymentPolicy = loadDeploymentPolicy();
+
+// A room can only tighten the deployment's policy: blocklists are combined,
+// allowlists intersected, and "reject" always wins over "warn"
+export function withRoomSettings(base: ContentPolicy, settings?: ContentPolicySettings): ContentPolicy {
+  if (!settings) return base;
+
+  let allowlist = base.allowlist;
+  if (settings.allowlist) {
+    const room = titleSet(settings.allowlist);
+    allowlist = base.allowlist
+      ? new Set(Array.from(room).filter(title => base.allowlist!.has(title)))
+      : room;
+  }
+
+  return {
+    blockedTitles: new Set([...Array.from(base.blockedTitles), ...Array.from(titleSet(settings.blockedTitles))]),
+    blockedCategories: new Set([
+      ...Array.from(base.blockedCategories),
+      ...Array.from(titleSet(settings.blockedCategories)),
+    ]),
+    allowlist,
+    enforcement: base.enforcement === "reject" || settings.enforcement === "reject" ? "reject" : "warn",
+  };
+}
+
+// Titles among `titles` (canonical, underscore form) that the policy
+// excludes, with the reason. Category checks cost one batched lookup.
+export async function findViolations(
+  source: ArticleSource,
+  titles: string[],
+  policy: ContentPolicy,
+): Promise<Map<string, ContentViolation>> {
+  const violations = new Map<string, ContentViolation>();
+  const display = (title: string) => `"${title.replace(/_/g, " ")}"`;
+
+  for (const title of titles) {
+    const key = normalizeTitle(title);
+    if (policy.blockedTitles.has(key)) {
+      violations.set(title, { title, message: `${display(title)} is on the blocked list.` });
+    } else if (policy.allowlist && !policy.allowlist.has(key)) {
+      violations.set(title, { title, message: `${display(title)} is not on the list of allowed articles.` });
+    }
+  }
+
+  const unchecked = titles.filter(title => !violations.has(title));
+  if (policy.blockedCategories.size > 0 && unchecked.length > 0) {
+    const categories = await source.findCategories(unchecked, Array.from(policy.blockedCategories));
+    for (const title of unchecked) {
+      const matched = categories.get(title) || categories.get(normalizeTitle(title));
+      if (matched?.length) {
+        violations.set(title, {
+          title,
+          message: `${display(title)} is in the blocked category "${matched[0].replace(/_/g, " ")}".`,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
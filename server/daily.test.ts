@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { before, test } from "node:test";
+
+// Config is read when modules load, so the environment is set first
+process.env.ARTICLE_SOURCE = "fixtures";
+process.env.ARTICLE_CACHE_DIR = "";
+process.env.DAILY_SEED = "test";
+process.env.DAILY_SEED_TITLES = "";
+delete process.env.DATABASE_URL;
+delete process.env.DAILY_PUZZLES_FILE;
+
+let daily: typeof import("./daily");
+let articles: typeof import("./articles");
+
+before(async () => {
+  articles = await import("./articles");
+  daily = await import("./daily");
+});
+
+test("the same date and seed give the same puzzle", async () => {
+  const site = await articles.getSite();
+  const first = await daily.generatePuzzle(site, "2024-05-01");
+  const second = await daily.generatePuzzle(site, "2024-05-01");
+
+  assert.deepEqual(second, first);
+  assert.deepEqual(first, ["Solar_System", "Earth"]);
+});
+
+test("generated puzzles are distinct existing articles", async () => {
+  const site = await articles.getSite();
+  for (const date of ["2024-05-01", "2024-05-02", "2024-12-31", "2025-01-01"]) {
+    const [start, target] = await daily.generatePuzzle(site, date);
+    assert.notEqual(start, target);
+    assert.ok(await site.source.resolveTitle(start), `${start} exists`);
+    assert.ok(await site.source.resolveTitle(target), `${target} exists`);
+  }
+});
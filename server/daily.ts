@@ -0,0 +1,284 @@
+import { createHash, randomUUID } from "crypto";
+import fs from "fs";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import type { DailyPuzzle, DailyStreak, GameSession, NewGameResponse, Puzzle } from "@shared/schema";
+import { config } from "./config";
+import { getArticleContent, getSite, type Site } from "./articles";
+import type { LeaderboardKey } from "./leaderboards";
+import { createSession, currentRules } from "./sessions";
+import { solveShortestPath } from "./solver";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEVICE_COOKIE = "device_id";
+const DEVICE_MAX_AGE_MS = 5 * 365 * DAY_MS;
+// Fresh starts tried before a day goes without a generated puzzle
+const MAX_ATTEMPTS = 20;
+
+// Broad topics every large wiki has; fixtures keep the ones they include
+const DEFAULT_SEED_TITLES = [
+  "Earth",
+  "Moon",
+  "Sun",
+  "Solar_System",
+  "Planet",
+  "Milky_Way",
+  "Galaxy",
+  "Star",
+  "Ocean",
+  "Mountain",
+  "River",
+  "City",
+  "Music",
+  "Painting",
+  "Mathematics",
+  "Physics",
+  "Chemistry",
+  "Biology",
+  "History",
+  "Language",
+  "Food",
+  "Animal",
+  "Plant",
+  "Sport",
+];
+
+export class DailyPuzzleError extends Error {
+  status = 503;
+
+  constructor(date: string) {
+    super(`No daily puzzle could be made for ${date}`);
+    this.name = "DailyPuzzleError";
+  }
+}
+
+const curatedPuzzlesSchema = z.record(
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Puzzle dates look like 2024-05-01"),
+  z.object({ startArticle: z.string().min(1), targetArticle: z.string().min(1) }),
+);
+
+const curatedPuzzles = config.daily.puzzlesFile
+  ? curatedPuzzlesSchema.parse(JSON.parse(fs.readFileSync(config.daily.puzzlesFile, "utf-8")))
+  : {};
+
+// The UTC day containing `now`, "2024-05-01"
+export function utcDate(now = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+// Midnight UTC at the start of `date`, in ms since epoch
+export function dayStart(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+function addDays(date: string, days: number): string {
+  return utcDate(dayStart(date) + days * DAY_MS);
+}
+
+// mulberry32, seeded from the date, so every instance draws the same numbers
+function seededRandom(date: string): () => number {
+  let state = createHash("sha256").update(`${config.daily.seed}:${date}`).digest().readUInt32LE(0);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Removes and returns a random item, or undefined once `items` is empty
+function draw<T>(items: T[], random: () => number): T | undefined {
+  if (items.length === 0) return undefined;
+  return items.splice(Math.floor(random() * items.length), 1)[0];
+}
+
+// The canonical title `title` redirects to, or null unless it is an
+// existing article other than a disambiguation page
+async function playableTitle(site: Site, title: string): Promise<string | null> {
+  const resolved = await site.source.resolveTitle(title);
+  return resolved && resolved.namespace === 0 && !resolved.isDisambiguation ? resolved.title : null;
+}
+
+// A playable article among `titles`, drawn in seeded order
+async function drawArticle(site: Site, titles: string[], random: () => number): Promise<string | null> {
+  const candidates = titles.slice().sort();
+  for (let title = draw(candidates, random); title; title = draw(candidates, random)) {
+    const playable = await playableTitle(site, title);
+    if (playable) return playable;
+  }
+  return null;
+}
+
+// Walks links from a seeded start. Links are read as of the puzzle's
+// midnight, which games pin to, so the walk is a route players can take.
+export async function generatePuzzle(site: Site, date: string): Promise<[string, string]> {
+  const random = seededRandom(date);
+  const pinnedAt = dayStart(date);
+  const starts = config.daily.seedTitles.length > 0 ? config.daily.seedTitles : DEFAULT_SEED_TITLES;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const start = await drawArticle(site, starts, random);
+    if (!start) break;
+
+    const visited = [start];
+    let current: string | null = start;
+    for (let step = 0; current && step < config.daily.walkSteps; step++) {
+      const { links } = await getArticleContent(site, current, pinnedAt);
+      current = await drawArticle(site, links.filter(link => !visited.includes(link)), random);
+      if (current) visited.push(current);
+    }
+    if (current && current !== start) return [start, current];
+  }
+  throw new DailyPuzzleError(date);
+}
+
+async function loadPuzzle(date: string): Promise<Puzzle> {
+  const stored = await storage.getPuzzle(date);
+  if (stored) return stored;
+
+  const site = await getSite();
+  const [startArticle, targetArticle] = (await curatedPuzzle(site, date)) ?? (await generatePuzzle(site, date));
+  return storage.createPuzzle({ date, site: site.id, startArticle, targetArticle });
+}
+
+// The hand-picked pair for `date` in canonical titles. A pick that is not a
+// pair of distinct playable articles is logged and replaced by a generated one.
+async function curatedPuzzle(site: Site, date: string): Promise<[string, string] | null> {
+  const curated = curatedPuzzles[date];
+  if (!curated) return null;
+  const [start, target] = await Promise.all([
+    playableTitle(site, curated.startArticle),
+    playableTitle(site, curated.targetArticle),
+  ]);
+  if (!start || !target || start === target) {
+    console.warn(`Ignoring the daily puzzle picked for ${date}: ${curated.startArticle} -> ${curated.targetArticle} is not playable`);
+    return null;
+  }
+  return [start, target];
+}
+
+const loading = new Map<string, Promise<Puzzle>>();
+
+// The day's puzzle: the stored one, a hand-picked one from the puzzles file,
+// or one generated from the date. Once stored it no longer changes.
+export function getDailyPuzzle(date: string): Promise<Puzzle> {
+  let puzzle = loading.get(date);
+  if (!puzzle) {
+    puzzle = loadPuzzle(date).finally(() => loading.delete(date));
+    loading.set(date, puzzle);
+  }
+  return puzzle;
+}
+
+// Who plays a daily puzzle: the account, if any, and the browser, which gets
+// a long-lived id cookie on its first visit. Either having played counts.
+export function dailyPlayerKeys(req: Request, res: Response): string[] {
+  const cookie = (req.headers.cookie ?? "")
+    .split(";")
+    .map(part => part.trim().split("="))
+    .find(([name]) => name === DEVICE_COOKIE)?.[1];
+  let deviceId = cookie && /^[\w-]{1,64}$/.test(cookie) ? cookie : undefined;
+  if (!deviceId) {
+    deviceId = randomUUID();
+    res.cookie(DEVICE_COOKIE, deviceId, { maxAge: DEVICE_MAX_AGE_MS, httpOnly: true, sameSite: "lax" });
+  }
+  return [...(req.user ? [`user:${req.user.id}`] : []), `device:${deviceId}`];
+}
+
+// Runs of consecutive days with a daily puzzle won. A run that reaches
+// yesterday is still current, since today's puzzle can extend it.
+export async function getStreak(playerKeys: string[], today: string): Promise<DailyStreak> {
+  const plays = await storage.listDailyPlays(playerKeys);
+  const won = new Set(plays.filter(play => play.status === "won").map(play => play.date));
+
+  let best = 0;
+  for (const date of Array.from(won)) {
+    if (won.has(addDays(date, -1))) continue;
+    let length = 1;
+    while (won.has(addDays(date, length))) length++;
+    best = Math.max(best, length);
+  }
+
+  let current = 0;
+  let date = won.has(today) ? today : addDays(today, -1);
+  while (won.has(date)) {
+    current++;
+    date = addDays(date, -1);
+  }
+  return { current, best };
+}
+
+// Today's puzzle as the caller sees it
+export async function describeDailyPuzzle(playerKeys: string[], now = Date.now()): Promise<DailyPuzzle> {
+  const date = utcDate(now);
+  const [puzzle, play, streak] = await Promise.all([
+    getDailyPuzzle(date),
+    storage.findDailyPlay(date, playerKeys),
+    getStreak(playerKeys, date),
+  ]);
+  return {
+    date,
+    site: puzzle.site,
+    startArticle: puzzle.startArticle,
+    targetArticle: puzzle.targetArticle,
+    nextPuzzleAt: dayStart(addDays(date, 1)),
+    playedGameId: play?.gameId ?? null,
+    streak,
+  };
+}
+
+// Starts today's puzzle for the player, or resolves to null if they have
+// played it. The play is claimed first, so two tabs cannot both start one,
+// and released again if the game then fails to start.
+export async function startDailyGame(playerKeys: string[], userId?: string): Promise<NewGameResponse | null> {
+  const date = utcDate();
+  const puzzle = await getDailyPuzzle(date);
+  const site = await getSite(puzzle.site);
+  const game = {
+    site: puzzle.site,
+    targetSite: puzzle.site,
+    startArticle: puzzle.startArticle,
+    targetArticle: puzzle.targetArticle,
+    // Everyone reads the articles as they were when the puzzle came out
+    pinnedAt: dayStart(date),
+  };
+
+  const id = randomUUID();
+  if (!(await storage.claimDailyPlay(date, playerKeys, id))) return null;
+  let session: GameSession;
+  try {
+    session = createSession({ ...game, id, mode: "daily", userId, puzzleDate: date });
+  } catch (error) {
+    await storage.releaseDailyPlay(date, id);
+    throw error;
+  }
+
+  // Solve in the background so the results screen finds the optimal route cached
+  solveShortestPath(site, game.startArticle, game.targetArticle).catch(error => {
+    console.error("Error precomputing shortest path:", error);
+  });
+  return {
+    ...game,
+    id: session.id,
+    articleToken: session.articleToken,
+    startedAt: session.startedAt,
+    rules: session.rules,
+    puzzleDate: date,
+  };
+}
+
+// What the daily leaderboard of `date` (default today) ranks, once that
+// day has a puzzle
+export async function dailyLeaderboardKey(date = utcDate()): Promise<LeaderboardKey | undefined> {
+  const puzzle = await storage.getPuzzle(date);
+  if (!puzzle) return undefined;
+  return {
+    site: puzzle.site,
+    targetSite: puzzle.site,
+    startArticle: puzzle.startArticle,
+    targetArticle: puzzle.targetArticle,
+    rules: currentRules(),
+    puzzleDate: date,
+  };
+}
@@ -0,0 +1,13 @@
+import { drizzle } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import * as schema from "@shared/schema";
+
+// Postgres is optional: without DATABASE_URL every database-backed feature
+// falls back to its in-memory or source-backed behaviour.
+export const pool = process.env.DATABASE_URL
+  ? new pg.Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
+
+export const db = pool ? drizzle(pool, { schema }) : null;
+
+export type Database = NonNullable<typeof db>;
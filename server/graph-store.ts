@@ -0,0 +1,155 @@
+import { and, eq, inArray, isNull, or, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { pages, pageLinks, type Page } from "@shared/schema";
+import { db, type Database } from "./db";
+
+// Postgres caps bind parameters per statement, so bulk writes are chunked
+const CHUNK_SIZE = 1000;
+
+function chunks<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    result.push(items.slice(i, i + CHUNK_SIZE));
+  }
+  return result;
+}
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Adjacency list of the article graph in Postgres. Links are stored as they
+// appear in the article, so a link may point at a redirect page; neighbour
+// queries look through known redirects to the article behind them.
+export class LinkGraphStore {
+  constructor(private db: Database) {}
+
+  private async pageIds(tx: Transaction, titles: string[]): Promise<Map<string, number>> {
+    const ids = new Map<string, number>();
+    for (const chunk of chunks(titles)) {
+      await tx.insert(pages).values(chunk.map(title => ({ title }))).onConflictDoNothing();
+      const rows = await tx
+        .select({ id: pages.id, title: pages.title })
+        .from(pages)
+        .where(inArray(pages.title, chunk));
+      for (const row of rows) ids.set(row.title, row.id);
+    }
+    return ids;
+  }
+
+  // Replaces the outgoing links of `title` and records the redirects that
+  // were followed to reach it
+  async recordArticle(title: string, redirects: string[], links: string[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const ids = await this.pageIds(tx, Array.from(new Set([title, ...redirects, ...links])));
+      const pageId = ids.get(title)!;
+      const now = new Date();
+
+      await tx.update(pages).set({ fetchedAt: now, redirectTo: null }).where(eq(pages.id, pageId));
+      const redirectIds = redirects.filter(r => r !== title).map(r => ids.get(r)!);
+      if (redirectIds.length > 0) {
+        await tx.update(pages).set({ fetchedAt: now, redirectTo: pageId }).where(inArray(pages.id, redirectIds));
+      }
+
+      await tx.delete(pageLinks).where(eq(pageLinks.fromId, pageId));
+      const targetIds = Array.from(new Set(links.map(link => ids.get(link)!))).filter(id => id !== pageId);
+      for (const chunk of chunks(targetIds)) {
+        await tx
+          .insert(pageLinks)
+          .values(chunk.map(toId => ({ fromId: pageId, toId })))
+          .onConflictDoNothing();
+      }
+    });
+  }
+
+  // Bulk import from a dump: every listed page is marked as fetched, since a
+  // dump holds its complete link list. Returns title -> page id.
+  async importPages(titles: string[]): Promise<Map<string, number>> {
+    const ids = new Map<string, number>();
+    const now = new Date();
+    for (const chunk of chunks(titles)) {
+      const rows = await this.db
+        .insert(pages)
+        .values(chunk.map(title => ({ title, fetchedAt: now })))
+        .onConflictDoUpdate({ target: pages.title, set: { fetchedAt: now } })
+        .returning({ id: pages.id, title: pages.title });
+      for (const row of rows) ids.set(row.title, row.id);
+    }
+    return ids;
+  }
+
+  // Ids of already imported pages, used when resuming an interrupted import
+  async pageIdsFor(titles: string[]): Promise<Map<string, number>> {
+    const ids = new Map<string, number>();
+    for (const chunk of chunks(titles)) {
+      const rows = await this.db
+        .select({ id: pages.id, title: pages.title })
+        .from(pages)
+        .where(inArray(pages.title, chunk));
+      for (const row of rows) ids.set(row.title, row.id);
+    }
+    return ids;
+  }
+
+  async importRedirects(redirects: { fromId: number; toId: number }[]): Promise<void> {
+    for (const chunk of chunks(redirects)) {
+      const values = sql.join(chunk.map(r => sql`(${r.fromId}::integer, ${r.toId}::integer)`), sql`, `);
+      await this.db.execute(sql`
+        update ${pages} set ${sql.identifier(pages.redirectTo.name)} = v.to_id
+        from (values ${values}) as v(from_id, to_id)
+        where ${pages.id} = v.from_id
+      `);
+    }
+  }
+
+  async importLinks(links: { fromId: number; toId: number }[]): Promise<void> {
+    for (const chunk of chunks(links)) {
+      await this.db.insert(pageLinks).values(chunk).onConflictDoNothing();
+    }
+  }
+
+  // The page for `title`, after following one stored redirect
+  async findPage(title: string): Promise<Page | undefined> {
+    const [page] = await this.db.select().from(pages).where(eq(pages.title, title));
+    if (!page?.redirectTo) return page;
+    const [target] = await this.db.select().from(pages).where(eq(pages.id, page.redirectTo));
+    return target;
+  }
+
+  // Articles `title` links to, or null when its links were never recorded
+  async outgoing(title: string): Promise<string[] | null> {
+    const page = await this.findPage(title);
+    if (!page?.fetchedAt) return null;
+
+    const target = alias(pages, "target");
+    const canonical = alias(pages, "canonical");
+    const rows = await this.db
+      .selectDistinct({ title: sql<string>`coalesce(${canonical.title}, ${target.title})` })
+      .from(pageLinks)
+      .innerJoin(target, eq(target.id, pageLinks.toId))
+      .leftJoin(canonical, eq(canonical.id, target.redirectTo))
+      .where(eq(pageLinks.fromId, page.id));
+    return rows.map(row => row.title).filter(linked => linked !== page.title);
+  }
+
+  // Recorded articles that link to `title` directly or through a redirect
+  async incoming(title: string, limit: number): Promise<string[]> {
+    const page = await this.findPage(title);
+    if (!page) return [];
+
+    const source = alias(pages, "source");
+    const redirects = this.db.select({ id: pages.id }).from(pages).where(eq(pages.redirectTo, page.id));
+    const rows = await this.db
+      .selectDistinct({ title: source.title })
+      .from(pageLinks)
+      .innerJoin(source, eq(source.id, pageLinks.fromId))
+      .where(
+        and(
+          isNull(source.redirectTo),
+          or(eq(pageLinks.toId, page.id), inArray(pageLinks.toId, redirects)),
+        ),
+      )
+      .limit(limit);
+    return rows.map(row => row.title).filter(linking => linking !== page.title);
+  }
+}
+
+export const linkGraphStore = db ? new LinkGraphStore(db) : null;
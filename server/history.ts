@@ -0,0 +1,31 @@
+import type { HistoryEntry } from "@shared/schema";
+import { isLive } from "./sessions";
+import { storage } from "./storage";
+
+const HISTORY_LIMIT = 200;
+
+// A player's most recent games with every click, newest first
+export async function listHistory(userId: string): Promise<HistoryEntry[]> {
+  const games = await storage.listGames(userId, HISTORY_LIMIT);
+  return Promise.all(
+    games.map(async game => ({
+      id: game.id,
+      mode: game.mode,
+      // Games still marked as playing that the server no longer tracks
+      // (say, after a restart) can never finish
+      status: game.status === "playing" && !isLive(game.id) ? "abandoned" : game.status,
+      site: game.site,
+      targetSite: game.targetSite,
+      startArticle: game.startArticle,
+      targetArticle: game.targetArticle,
+      rules: game.rules,
+      startedAt: game.startedAt.getTime(),
+      finishedAt: game.finishedAt?.getTime() ?? null,
+      moves: (await storage.listMoves(game.id)).map(move => ({
+        site: move.site,
+        title: move.title,
+        at: move.at.getTime(),
+      })),
+    })),
+  );
+}
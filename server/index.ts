@@ -3,6 +3,7 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { setupSocket } from "./socket";
+import { contentSecurityPolicy } from "./security";
 
 const app = express();
 const httpServer = createServer(app);
@@ -13,6 +14,8 @@ declare module "http" {
   }
 }
 
+app.use(contentSecurityPolicy());
+
 app.use(
   express.json({
     verify: (req, _res, buf) => {
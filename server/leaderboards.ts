@@ -0,0 +1,120 @@
+import type {
+  GameResult,
+  GameRules,
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardPeriod,
+  LeaderboardSort,
+} from "@shared/schema";
+import { normalizeTitle } from "@shared/titles";
+import { rulesKey, storage } from "./storage";
+
+const LEADERBOARD_SIZE = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What a leaderboard ranks: wins on one pair under one set of rules
+export interface LeaderboardKey {
+  site: string;
+  targetSite: string;
+  startArticle: string;
+  targetArticle: string;
+  rules: GameRules;
+  // Ranks that day's daily challenge rather than free play on the pair
+  puzzleDate?: string;
+}
+
+// Start of the period containing `now`, in UTC; weeks start on Monday
+export function periodStart(period: LeaderboardPeriod, now = new Date()): Date | undefined {
+  if (period === "all") return undefined;
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  if (period === "day") return new Date(midnight);
+  const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+  return new Date(midnight - daysSinceMonday * DAY_MS);
+}
+
+// Records a win, keyed the way leaderboards look results up
+export async function recordResult(
+  result: LeaderboardKey & { gameId: string; userId?: string; clicks: number; durationMs: number; finishedAt: Date },
+): Promise<void> {
+  await storage.addResult({
+    gameId: result.gameId,
+    userId: result.userId ?? null,
+    site: result.site,
+    targetSite: result.targetSite,
+    startArticle: normalizeTitle(result.startArticle),
+    targetArticle: normalizeTitle(result.targetArticle),
+    rulesKey: rulesKey(result.rules),
+    clicks: result.clicks,
+    durationMs: result.durationMs,
+    finishedAt: result.finishedAt,
+    puzzleDate: result.puzzleDate ?? null,
+  });
+}
+
+const COMPARE: Record<LeaderboardSort, (a: GameResult, b: GameResult) => number> = {
+  clicks: (a, b) => a.clicks - b.clicks || a.durationMs - b.durationMs,
+  time: (a, b) => a.durationMs - b.durationMs || a.clicks - b.clicks,
+};
+
+// Each player's best result; results without an account each stand alone
+function bestPerPlayer(results: GameResult[], compare: (a: GameResult, b: GameResult) => number): GameResult[] {
+  const best = new Map<string, GameResult>();
+  for (const result of results) {
+    const player = result.userId ?? `game:${result.gameId}`;
+    const current = best.get(player);
+    if (!current || compare(result, current) < 0) best.set(player, result);
+  }
+  return Array.from(best.values());
+}
+
+// Ranks wins on a pair. `you` picks the caller's results: their account, or
+// the game they just played when they have none.
+export async function getLeaderboard(
+  key: LeaderboardKey,
+  options: { sort: LeaderboardSort; period: LeaderboardPeriod; userId?: string; gameId?: string },
+): Promise<Leaderboard> {
+  const compare = COMPARE[options.sort];
+  const results = await storage.listResults({
+    site: key.site,
+    targetSite: key.targetSite,
+    startArticle: normalizeTitle(key.startArticle),
+    targetArticle: normalizeTitle(key.targetArticle),
+    rulesKey: rulesKey(key.rules),
+    since: periodStart(options.period),
+    puzzleDate: key.puzzleDate,
+  });
+  // Earlier results win ties in order, though not in rank
+  const ranked = bestPerPlayer(results, compare).sort(
+    (a, b) => compare(a, b) || a.finishedAt.getTime() - b.finishedAt.getTime(),
+  );
+
+  const isYou = (result: GameResult) =>
+    (!!options.userId && result.userId === options.userId) || result.gameId === options.gameId;
+  const names = new Map<string, string>();
+  const entry = async (index: number): Promise<LeaderboardEntry> => {
+    const result = ranked[index];
+    let rank = index;
+    while (rank > 0 && compare(ranked[rank - 1], result) === 0) rank--;
+
+    if (result.userId && !names.has(result.userId)) {
+      names.set(result.userId, (await storage.getUser(result.userId))?.displayName ?? "Former player");
+    }
+    return {
+      rank: rank + 1,
+      name: result.userId ? names.get(result.userId)! : "Anonymous",
+      clicks: result.clicks,
+      durationMs: result.durationMs,
+      finishedAt: result.finishedAt.getTime(),
+      isYou: isYou(result),
+    };
+  };
+
+  const top = ranked.slice(0, LEADERBOARD_SIZE);
+  const entries = await Promise.all(top.map((_, index) => entry(index)));
+  const yourIndex = ranked.findIndex(isYou);
+  return {
+    entries,
+    you: yourIndex >= LEADERBOARD_SIZE ? await entry(yourIndex) : null,
+    total: ranked.length,
+  };
+}
@@ -0,0 +1,88 @@
+import type { MoveRejectionReason, MoveRequest, PathStep } from "@shared/schema";
+import { isSameArticle, isSameTitle } from "@shared/titles";
+import { toTitleKey } from "./article-source";
+import { getArticleContent, getSite } from "./articles";
+
+export class InvalidMoveError extends Error {
+  status = 422;
+
+  constructor(public reason: MoveRejectionReason, message: string) {
+    super(message);
+    this.name = "InvalidMoveError";
+  }
+}
+
+// What a move is checked against: the game's editions and pinned time
+export interface MoveContext {
+  site: string;
+  targetSite: string;
+  pinnedAt?: number;
+}
+
+const display = (title: string) => `"${title.replace(/_/g, " ")}"`;
+
+// Checks that `to` is linked from the article at `from`, as the server
+// renders it for this game, and returns the step with the canonical title.
+// Language links only count in cross-language games.
+export async function validateMove(game: MoveContext, from: PathStep, to: MoveRequest): Promise<PathStep> {
+  const fromSite = await getSite(from.site);
+  const article = await getArticleContent(fromSite, from.title, game.pinnedAt);
+
+  let toSite = fromSite;
+  if (to.site && to.site !== fromSite.id) {
+    if (game.site === game.targetSite) {
+      throw new InvalidMoveError("language_link_not_allowed", "This game is played on a single wiki");
+    }
+    const linked = article.languageLinks.some(link => link.site === to.site && isSameTitle(link.title, to.title));
+    if (!linked) {
+      throw new InvalidMoveError("not_linked", `${display(from.title)} has no ${to.site} language link to ${display(to.title)}`);
+    }
+    toSite = await getSite(to.site);
+  } else if (!article.links.some(link => isSameTitle(link, to.title))) {
+    throw new InvalidMoveError("not_linked", `${display(from.title)} does not link to ${display(to.title)}`);
+  }
+
+  const resolved = await toSite.source.resolveTitle(to.title);
+  return { site: toSite.id, title: resolved?.title ?? toTitleKey(to.title) };
+}
+
+// Re-checks a claimed winning path one link at a time. Returns the path with
+// canonical titles and the revision of every article that was checked.
+export async function verifyPath(
+  game: MoveContext & { startArticle: string; targetArticle: string },
+  path: PathStep[],
+): Promise<PathStep[]> {
+  const start = { site: game.site, title: game.startArticle };
+  if (path.length === 0 || !isSameArticle(path[0], start)) {
+    throw new InvalidMoveError("wrong_start", `The path does not begin at ${display(game.startArticle)}`);
+  }
+
+  const verified: PathStep[] = [start];
+  for (const step of path.slice(1)) {
+    const from = verified[verified.length - 1];
+    const next = await validateMove(game, from, step);
+    // Already cached by validateMove
+    from.revisionId = (await getArticleContent(await getSite(from.site), from.title, game.pinnedAt)).revisionId;
+    verified.push(next);
+  }
+
+  if (!isSameArticle(verified[verified.length - 1], { site: game.targetSite, title: game.targetArticle })) {
+    throw new InvalidMoveError("target_not_reached", `The path does not end at ${display(game.targetArticle)}`);
+  }
+  return verified;
+}
+
+const queues = new Map<string, Promise<unknown>>();
+
+// Runs `task` once every task queued earlier under `key` has settled, so
+// one player's moves are validated in the order they were sent
+export function inOrder<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const next = (queues.get(key) ?? Promise.resolve()).catch(() => {}).then(task);
+  queues.set(key, next);
+  next
+    .finally(() => {
+      if (queues.get(key) === next) queues.delete(key);
+    })
+    .catch(() => {});
+  return next;
+}
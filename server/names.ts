@@ -0,0 +1,9 @@
+const ADJECTIVES = ["Neon", "Cyber", "Mega", "Super", "Ultra", "Quantum", "Pixel", "Techno", "Retro", "Binary"];
+const ANIMALS = ["Fox", "Owl", "Wolf", "Bear", "Cat", "Dog", "Hawk", "Eagle", "Shark", "Dragon"];
+
+// A random player name, for guests and nameless room members
+export function generateName(): string {
+  const adj = ADJECTIVES[Math.floor(Math.random() * ADJECTIVES.length)];
+  const animal = ANIMALS[Math.floor(Math.random() * ANIMALS.length)];
+  return `${adj} ${animal}`;
+}
@@ -0,0 +1,105 @@
+import type { ArticleIssue, NewGameError } from "@shared/schema";
+import type { Site } from "./articles";
+import { findViolations, type ContentPolicy, type ContentViolation } from "./content-policy";
+
+const SUGGESTION_LIMIT = 5;
+
+export class ArticleValidationError extends Error {
+  status = 422;
+
+  constructor(public fields: NewGameError["fields"]) {
+    super("Some articles cannot be used for a game");
+    this.name = "ArticleValidationError";
+  }
+}
+
+type CheckResult = { title: string; issue?: undefined } | { title?: undefined; issue: ArticleIssue };
+
+async function checkArticle(site: Site, title: string, role: "start" | "target"): Promise<CheckResult> {
+  const { source } = site;
+  const display = title.replace(/_/g, " ");
+  const resolved = await source.resolveTitle(title);
+
+  if (!resolved) {
+    return {
+      issue: {
+        reason: "missing",
+        message: `There is no article called "${display}".`,
+        suggestions: await source.suggestTitles(title, SUGGESTION_LIMIT),
+      },
+    };
+  }
+
+  if (resolved.namespace !== 0) {
+    const name = resolved.title.slice(resolved.title.indexOf(":") + 1);
+    return {
+      issue: {
+        reason: "not_article",
+        message: `"${display}" is not an encyclopedia article.`,
+        suggestions: await source.suggestTitles(name, SUGGESTION_LIMIT),
+      },
+    };
+  }
+
+  // A disambiguation page is a fine place to start but an unfair target:
+  // it is usually reached by accident, never by aiming for it
+  if (role === "target" && resolved.isDisambiguation) {
+    const links = await source.getLinks(resolved.title);
+    return {
+      issue: {
+        reason: "disambiguation",
+        message: `"${resolved.title.replace(/_/g, " ")}" is a disambiguation page. Pick one of its meanings.`,
+        suggestions: links.slice(0, SUGGESTION_LIMIT),
+      },
+    };
+  }
+
+  return { title: resolved.title };
+}
+
+// Resolves manually chosen articles to canonical titles, or throws an
+// ArticleValidationError describing every field that is unusable. `sites`
+// are the start and target editions, the same site unless cross-language.
+export async function resolveManualPair(
+  [startSite, targetSite]: [Site, Site],
+  start: string,
+  target: string,
+): Promise<[string, string]> {
+  const [startCheck, targetCheck] = await Promise.all([
+    checkArticle(startSite, start, "start"),
+    checkArticle(targetSite, target, "target"),
+  ]);
+
+  if (startCheck.issue || targetCheck.issue) {
+    throw new ArticleValidationError({
+      startArticle: startCheck.issue,
+      targetArticle: targetCheck.issue,
+    });
+  }
+
+  return [startCheck.title!, targetCheck.title!];
+}
+
+// Applies a content policy to a chosen pair. Under "reject" a restricted
+// article fails like any other unusable one; under "warn" the pair is kept
+// and the reasons come back as warnings for the players.
+export async function enforceContentPolicy(
+  [startSite, targetSite]: [Site, Site],
+  [start, target]: [string, string],
+  policy: ContentPolicy,
+): Promise<string[]> {
+  const [startViolation, targetViolation] = await Promise.all([
+    findViolations(startSite.source, [start], policy).then(violations => violations.get(start)),
+    findViolations(targetSite.source, [target], policy).then(violations => violations.get(target)),
+  ]);
+  const violations = [startViolation, targetViolation].filter(violation => violation !== undefined);
+  if (violations.length === 0) return [];
+
+  if (policy.enforcement === "warn") {
+    return violations.map(violation => violation.message);
+  }
+
+  const issue = (violation?: ContentViolation): ArticleIssue | undefined =>
+    violation && { reason: "blocked", message: violation.message, suggestions: [] };
+  throw new ArticleValidationError({ startArticle: issue(startViolation), targetArticle: issue(targetViolation) });
+}
@@ -0,0 +1,123 @@
+import type { Difficulty, NewGameRequest } from "@shared/schema";
+import { config } from "./config";
+import { getRandomArticles, type Site } from "./articles";
+import { screenCandidates } from "./article-quality";
+import { findViolations, type ContentPolicy } from "./content-policy";
+import { solveShortestPath } from "./solver";
+
+export interface DifficultyBand {
+  minDistance: number;
+  maxDistance: number;
+  // Bounds on how many articles link to the target. Well-linked targets are
+  // easier to home in on, obscure ones reward knowing the way.
+  minInDegree?: number;
+  maxInDegree?: number;
+}
+
+export const DIFFICULTY_BANDS: Record<Difficulty, DifficultyBand> = {
+  easy: { minDistance: 1, maxDistance: 2, minInDegree: 100 },
+  medium: { minDistance: 2, maxDistance: 3, minInDegree: 20 },
+  hard: { minDistance: 3, maxDistance: 4 },
+  expert: { minDistance: 4, maxDistance: 6, maxInDegree: 50 },
+};
+
+// Up to this distance, targets come from a random walk away from the start:
+// two unrelated random articles are almost never that close
+const WALK_MAX_DISTANCE = 3;
+
+export class PairGenerationError extends Error {
+  status = 503;
+
+  constructor() {
+    super("No suitable article pair was found in time");
+    this.name = "PairGenerationError";
+  }
+}
+
+export interface RandomPair {
+  startArticle: string;
+  targetArticle: string;
+  distance: number;
+}
+
+// The band a new-game request asks for, or null for an ungraded random pair
+export function requestedBand(request: NewGameRequest): DifficultyBand | null {
+  if (request.minDistance !== undefined || request.maxDistance !== undefined) {
+    const maxDistance = Math.min(request.maxDistance ?? config.solver.maxDepth, config.solver.maxDepth);
+    return { minDistance: Math.min(request.minDistance ?? 1, maxDistance), maxDistance };
+  }
+  return request.difficulty ? DIFFICULTY_BANDS[request.difficulty] : null;
+}
+
+async function walkFrom(site: Site, start: string, steps: number): Promise<string | null> {
+  const visited = new Set([start]);
+  let current = start;
+  for (let i = 0; i < steps; i++) {
+    const links = (await site.source.getLinks(current)).filter(link => !visited.has(link));
+    if (links.length === 0) return null;
+    current = links[Math.floor(Math.random() * links.length)];
+    visited.add(current);
+  }
+  return current;
+}
+
+// With an allowlist, a walk would almost always leave it, so both articles
+// are drawn from the list instead. Walk targets face the same quality filter
+// as random articles.
+async function drawCandidate(
+  site: Site,
+  band: DifficultyBand,
+  policy: ContentPolicy,
+): Promise<[string, string] | null> {
+  if (band.maxDistance <= WALK_MAX_DISTANCE && !policy.allowlist) {
+    const [start] = await getRandomArticles(site, 1, policy);
+    const target = start && (await walkFrom(site, start, band.maxDistance));
+    if (!target) return null;
+    const { accepted } = await screenCandidates(site.source, [target], config.randomQuality);
+    return accepted.length > 0 ? [start, target] : null;
+  }
+  const [start, target] = await getRandomArticles(site, 2, policy);
+  return start && target ? [start, target] : null;
+}
+
+async function inDegreeFits(site: Site, target: string, band: DifficultyBand): Promise<boolean> {
+  if (band.minInDegree === undefined && band.maxInDegree === undefined) return true;
+  // Counting one past the largest bound is enough to decide either way
+  const limit = Math.max(band.minInDegree ?? 0, (band.maxInDegree ?? 0) + 1);
+  const inDegree = (await site.source.getBacklinks(target, limit)).length;
+  return inDegree >= (band.minInDegree ?? 0) && inDegree <= (band.maxInDegree ?? Infinity);
+}
+
+// Draws random pairs until one has a shortest path inside the band and a
+// target whose in-degree fits. When time runs out, a pair with the right
+// distance but the wrong in-degree is still better than no game.
+export async function generateRandomPair(
+  site: Site,
+  band: DifficultyBand,
+  policy: ContentPolicy,
+): Promise<RandomPair> {
+  const deadline = Date.now() + config.pairs.timeBudgetMs;
+  let fallback: RandomPair | null = null;
+
+  for (let attempt = 0; attempt < config.pairs.maxAttempts && Date.now() < deadline; attempt++) {
+    const candidate = await drawCandidate(site, band, policy);
+    if (!candidate || candidate[0] === candidate[1]) continue;
+
+    const target = await site.source.resolveTitle(candidate[1]);
+    if (!target || target.isDisambiguation) continue;
+    if ((await findViolations(site.source, [target.title], policy)).size > 0) continue;
+
+    const result = await solveShortestPath(site, candidate[0], target.title, { maxDepth: band.maxDistance });
+    if (result.status !== "found" || result.distance < band.minDistance) continue;
+
+    const pair = { startArticle: result.from, targetArticle: result.to, distance: result.distance };
+    if (await inDegreeFits(site, pair.targetArticle, band)) return pair;
+    fallback ??= pair;
+  }
+
+  if (fallback) {
+    console.warn("No pair matched the target in-degree band in time, using", fallback);
+    return fallback;
+  }
+  throw new PairGenerationError();
+}
@@ -1,162 +1,314 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
+import {
+  dailyLeaderboardQuerySchema,
+  leaderboardQuerySchema,
+  moveRequestSchema,
+  newGameRequestSchema,
+  shortestPathQuerySchema,
+  type NewGameResponse,
+  type PairResponse,
+} from "@shared/schema";
+import { ArticleNotFoundError } from "./article-source";
+import { articleAccessDenial, solutionAccessDenial } from "./article-access";
+import { setupAuth } from "./auth";
+import { config } from "./config";
+import {
+  UnknownSiteError,
+  cacheStats,
+  defaultSiteId,
+  getArticleContent,
+  getRandomArticles,
+  getSite,
+  normalizeSiteId,
+} from "./articles";
+import { ArticleValidationError, enforceContentPolicy, resolveManualPair } from "./pairs";
+import { PairGenerationError, generateRandomPair, requestedBand } from "./random-pairs";
+import { InvalidMoveError } from "./moves";
+import { GameSessionError, abandonSession, createSession, currentRules, getSession, recordMove } from "./sessions";
+import { getLeaderboard } from "./leaderboards";
+import { listHistory } from "./history";
+import {
+  DailyPuzzleError,
+  dailyLeaderboardKey,
+  dailyPlayerKeys,
+  dayStart,
+  describeDailyPuzzle,
+  startDailyGame,
+  utcDate,
+} from "./daily";
+import { roomContentPolicy, roomPinnedAt } from "./socket";
+import { solveShortestPath } from "./solver";
 
-const WIKIPEDIA_API = "https://en.wikipedia.org/w/api.php";
-
-// Prefixes that indicate non-article pages
-const NON_ARTICLE_PREFIXES = [
-  "File:",
-  "Special:",
-  "Category:",
-  "Help:",
-  "Wikipedia:",
-  "Template:",
-  "Talk:",
-  "Portal:",
-  "User:",
-  "Draft:",
-  "Module:",
-  "MediaWiki:",
-  "TimedText:",
-  "Book:",
-];
-
-function isArticleLink(href: string): boolean {
-  // Check if the link starts with a non-article prefix
-  return !NON_ARTICLE_PREFIXES.some(prefix =>
-    href.startsWith(prefix) || href.startsWith(prefix.toLowerCase())
-  );
+// The wiki a read request is about: `?site=`, or the default site
+function siteParam(query: Request["query"]): string | undefined {
+  return typeof query.site === "string" ? query.site : undefined;
 }
 
-async function getRandomArticles(count: number = 2): Promise<string[]> {
-  const params = new URLSearchParams({
-    action: "query",
-    format: "json",
-    list: "random",
-    rnnamespace: "0",
-    rnlimit: count.toString(),
-  });
-
-  const response = await fetch(`${WIKIPEDIA_API}?${params}`);
-  const data = await response.json();
-
-  return data.query.random.map((article: { title: string }) =>
-    article.title.replace(/ /g, "_")
-  );
+// A game's reference time, `?at=` in ms since epoch; NaN when malformed
+function pinParam(query: Request["query"]): number | undefined {
+  if (query.at === undefined) return undefined;
+  return typeof query.at === "string" && /^\d+$/.test(query.at) ? Number(query.at) : NaN;
 }
 
-async function getArticleContent(title: string): Promise<{
-  title: string;
-  content: string;
-  links: string[];
-}> {
-  const params = new URLSearchParams({
-    action: "parse",
-    format: "json",
-    page: title,
-    prop: "text|links",
-    disableeditsection: "true",
-    redirects: "true",
-  });
-
-  const response = await fetch(`${WIKIPEDIA_API}?${params}`);
-  const data = await response.json();
+export async function registerRoutes(
+  httpServer: Server,
+  app: Express
+): Promise<Server> {
+  setupAuth(app);
 
-  if (data.error) {
-    throw new Error(data.error.info || "Article not found");
-  }
+  // Start a new game with chosen articles, or random ones of a given
+  // difficulty; or only pick such a pair, without starting a game
+  app.post("/api/game/new", async (req, res) => {
+    const parsed = newGameRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.issues[0].message });
+      return;
+    }
 
-  const parse = data.parse;
-  let html = parse.text["*"];
+    try {
+      const { startArticle, targetArticle, roomId } = parsed.data;
+      const site = await getSite(parsed.data.site);
+      const targetSite = parsed.data.targetSite ? await getSite(parsed.data.targetSite) : site;
+      const crossLanguage = targetSite.id !== site.id;
+      const band = requestedBand(parsed.data);
+      const policy = roomContentPolicy(roomId);
+      // Room games read articles as of their round's start. Other games share
+      // the day's start, so that they share cached articles too.
+      const pinnedAt = roomPinnedAt(roomId) ?? dayStart(utcDate());
+      const base = { site: site.id, targetSite: targetSite.id, pinnedAt };
+      let game: Omit<NewGameResponse, "id" | "articleToken" | "startedAt" | "rules">;
 
-  // Extract internal Wikipedia links for reference
-  const links: string[] = (parse.links || [])
-    .filter((link: { ns: number }) => link.ns === 0)
-    .map((link: { "*": string }) => link["*"].replace(/ /g, "_"));
+      if (band && crossLanguage) {
+        // Distances are measured within one wiki's link graph
+        res.status(400).json({ error: "Difficulty levels are only available when both articles are on the same wiki" });
+        return;
+      }
 
-  // Process all internal Wikipedia links
-  // Match <a> tags with href="/wiki/..." regardless of attribute order
-  html = html.replace(
-    /<a\s+([^>]*?)href="\/wiki\/([^"]+)"([^>]*)>([\s\S]*?)<\/a>/gi,
-    (match: string, beforeHref: string, href: string, afterHref: string, content: string) => {
-      // Decode the href and remove fragment
-      let articleTitle = decodeURIComponent(href).split("#")[0];
+      if (startArticle && targetArticle) {
+        // Canonical titles let win detection see through redirects
+        const pair = await resolveManualPair([site, targetSite], startArticle, targetArticle);
+        const warnings = await enforceContentPolicy([site, targetSite], pair, policy);
+        game = {
+          ...base,
+          startArticle: pair[0],
+          targetArticle: pair[1],
+          ...(warnings.length > 0 && { warnings }),
+        };
+      } else if (band) {
+        game = { ...base, ...(await generateRandomPair(site, band, policy)) };
+      } else if (crossLanguage) {
+        const [start] = await getRandomArticles(site, 1, policy);
+        const [target] = await getRandomArticles(targetSite, 1, policy);
+        if (!start || !target) throw new PairGenerationError();
+        game = { ...base, startArticle: start, targetArticle: target };
+      } else {
+        const [start, target] = await getRandomArticles(site, 2, policy);
+        if (!start || !target) throw new PairGenerationError();
+        game = { ...base, startArticle: start, targetArticle: target };
+      }
 
-      // Check if this is an article link
-      if (!isArticleLink(articleTitle)) {
-        return `<span class="text-muted-foreground">${content}</span>`;
+      // Solve in the background so the results screen finds the optimal route cached
+      if (!crossLanguage) {
+        solveShortestPath(site, game.startArticle, game.targetArticle).catch(error => {
+          console.error("Error precomputing shortest path:", error);
+        });
       }
 
-      // Replace spaces with underscores for consistency
-      articleTitle = articleTitle.replace(/ /g, "_");
+      if (parsed.data.pairOnly) {
+        const { pinnedAt, ...pair } = game;
+        const response: PairResponse = pair;
+        res.json(response);
+        return;
+      }
 
-      return `<a href="#" data-wiki-link="${encodeURIComponent(articleTitle)}" class="wiki-link">${content}</a>`;
+      const session = createSession(
+        {
+          ...game,
+          mode: parsed.data.mode ?? (startArticle && targetArticle ? "manual" : "random"),
+          userId: req.user?.id,
+          roomId,
+        },
+        parsed.data.scoutingAllowed !== undefined ? { scoutingAllowed: parsed.data.scoutingAllowed } : {},
+      );
+      const response: NewGameResponse = {
+        ...game,
+        id: session.id,
+        articleToken: session.articleToken,
+        startedAt: session.startedAt,
+        rules: session.rules,
+      };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ArticleValidationError) {
+        res.status(422).json({ error: error.message, fields: error.fields });
+        return;
+      }
+      if (error instanceof PairGenerationError || error instanceof UnknownSiteError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error("Error starting new game:", error);
+      res.status(500).json({ error: "Failed to start new game" });
     }
-  );
-
-  // Remove external links - convert to plain text
-  html = html.replace(
-    /<a\s+[^>]*class="[^"]*external[^"]*"[^>]*>([\s\S]*?)<\/a>/gi,
-    '$1'
-  );
+  });
 
-  // Remove any remaining external links (http/https)
-  html = html.replace(
-    /<a\s+href="https?:\/\/[^"]*"[^>]*>([\s\S]*?)<\/a>/gi,
-    '$1'
-  );
+  // A game session: its clock, moves and outcome as the server sees them
+  app.get("/api/game/:id", (req, res) => {
+    try {
+      res.json(getSession(req.params.id));
+    } catch (error) {
+      if (error instanceof GameSessionError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error("Error fetching game:", error);
+      res.status(500).json({ error: "Failed to fetch game" });
+    }
+  });
 
-  // Remove edit sections
-  html = html.replace(/<span class="mw-editsection"[\s\S]*?<\/span>/gi, '');
+  // Record a click; the response says whether it won the game
+  app.post("/api/game/:id/move", async (req, res) => {
+    const parsed = moveRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.issues[0].message });
+      return;
+    }
 
-  // Remove reference sections
-  html = html.replace(/<div class="reflist[\s\S]*?<\/div>/gi, '');
-  html = html.replace(/<sup class="reference"[\s\S]*?<\/sup>/gi, '');
+    try {
+      res.json(await recordMove(req.params.id, parsed.data));
+    } catch (error) {
+      if (error instanceof InvalidMoveError) {
+        res.status(error.status).json({ error: error.message, reason: error.reason });
+        return;
+      }
+      if (error instanceof ArticleNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error instanceof GameSessionError || error instanceof UnknownSiteError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error("Error recording move:", error);
+      res.status(500).json({ error: "Failed to record move" });
+    }
+  });
 
-  // Remove category links
-  html = html.replace(/<div id="catlinks"[\s\S]*?<\/div>/gi, '');
+  // Give up a game; finished games keep their outcome
+  app.post("/api/game/:id/abandon", async (req, res) => {
+    try {
+      res.json(await abandonSession(req.params.id));
+    } catch (error) {
+      if (error instanceof GameSessionError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error("Error abandoning game:", error);
+      res.status(500).json({ error: "Failed to abandon game" });
+    }
+  });
 
-  // Remove navigation boxes (multi-pass for nested structures)
-  html = html.replace(/<div[^>]*class="[^"]*navbox[^"]*"[\s\S]*?<\/div>/gi, '');
-  html = html.replace(/<table[^>]*class="[^"]*navbox[^"]*"[\s\S]*?<\/table>/gi, '');
+  // The logged-in player's past games
+  app.get("/api/history", async (req, res) => {
+    if (!req.user) {
+      res.status(401).json({ error: "Not logged in" });
+      return;
+    }
 
-  // Remove authority control
-  html = html.replace(/<div[^>]*class="[^"]*mw-authority-control[^"]*"[\s\S]*?<\/div>/gi, '');
+    try {
+      res.json(await listHistory(req.user.id));
+    } catch (error) {
+      console.error("Error fetching history:", error);
+      res.status(500).json({ error: "Failed to fetch history" });
+    }
+  });
 
-  // Remove empty paragraphs
-  html = html.replace(/<p>\s*<\/p>/gi, '');
+  // Best wins on a pair under the given rules
+  app.get("/api/leaderboard", async (req, res) => {
+    const parsed = leaderboardQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.issues[0].message });
+      return;
+    }
 
-  return {
-    title: parse.title.replace(/ /g, "_"),
-    content: html,
-    links,
-  };
-}
+    try {
+      const { start, target, timeLimitSeconds, scoutingAllowed, sort, period, game } = parsed.data;
+      const site = normalizeSiteId(parsed.data.site);
+      const rules = currentRules({
+        ...(timeLimitSeconds !== undefined && { timeLimitSeconds }),
+        ...(scoutingAllowed !== undefined && { scoutingAllowed }),
+      });
+      const key = {
+        site,
+        targetSite: parsed.data.targetSite ? normalizeSiteId(parsed.data.targetSite) : site,
+        startArticle: start,
+        targetArticle: target,
+        rules,
+      };
+      res.json(await getLeaderboard(key, { sort, period, userId: req.user?.id, gameId: game }));
+    } catch (error) {
+      if (error instanceof UnknownSiteError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error("Error fetching leaderboard:", error);
+      res.status(500).json({ error: "Failed to fetch leaderboard" });
+    }
+  });
 
-export async function registerRoutes(
-  httpServer: Server,
-  app: Express
-): Promise<Server> {
-  // Start a new game with random start and target articles
-  // Start a new game with random start and target articles
-  app.post("/api/game/new", async (req, res) => {
+  // Today's daily challenge, whether the caller has played it, and their streak
+  app.get("/api/daily", async (req, res) => {
     try {
-      const { startArticle, targetArticle } = req.body;
-      let articles: string[] = [];
+      res.json(await describeDailyPuzzle(dailyPlayerKeys(req, res)));
+    } catch (error) {
+      if (error instanceof DailyPuzzleError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error("Error fetching daily puzzle:", error);
+      res.status(500).json({ error: "Failed to fetch daily puzzle" });
+    }
+  });
 
-      if (startArticle && targetArticle) {
-        articles = [startArticle, targetArticle].map(a => a.replace(/ /g, "_"));
-      } else {
-        articles = await getRandomArticles(2);
+  // Start today's daily challenge; each account and browser gets one try
+  app.post("/api/daily/start", async (req, res) => {
+    try {
+      const game = await startDailyGame(dailyPlayerKeys(req, res), req.user?.id);
+      if (!game) {
+        res.status(409).json({ error: "You have already played today's puzzle" });
+        return;
       }
+      res.json(game);
+    } catch (error) {
+      if (error instanceof DailyPuzzleError || error instanceof UnknownSiteError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error("Error starting daily puzzle:", error);
+      res.status(500).json({ error: "Failed to start daily puzzle" });
+    }
+  });
 
-      res.json({
-        startArticle: articles[0],
-        targetArticle: articles[1],
-      });
+  // Best wins on a day's daily challenge
+  app.get("/api/daily/leaderboard", async (req, res) => {
+    const parsed = dailyLeaderboardQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.issues[0].message });
+      return;
+    }
+
+    try {
+      const { date, sort, game } = parsed.data;
+      const key = await dailyLeaderboardKey(date);
+      if (!key) {
+        res.status(404).json({ error: "No daily puzzle for that day" });
+        return;
+      }
+      res.json(await getLeaderboard(key, { sort, period: "all", userId: req.user?.id, gameId: game }));
     } catch (error) {
-      console.error("Error starting new game:", error);
-      res.status(500).json({ error: "Failed to start new game" });
+      console.error("Error fetching daily leaderboard:", error);
+      res.status(500).json({ error: "Failed to fetch daily leaderboard" });
     }
   });
 
@@ -164,13 +316,107 @@ export async function registerRoutes(
   app.get("/api/article/:title", async (req, res) => {
     try {
       const title = decodeURIComponent(req.params.title);
-      const article = await getArticleContent(title);
+      const pinnedAt = pinParam(req.query);
+      if (Number.isNaN(pinnedAt)) {
+        res.status(400).json({ error: "at must be a timestamp in milliseconds" });
+        return;
+      }
+      const site = await getSite(siteParam(req.query));
+      const article = await getArticleContent(site, title, pinnedAt);
+
+      // Checked against the canonical title, so redirects cannot dodge it
+      const denial = await articleAccessDenial(req.get("X-Game-Token"), { site: site.id, title: article.title });
+      if (denial) {
+        if (config.articleAccess.enforcement === "block") {
+          res.status(403).json({ error: denial });
+          return;
+        }
+        console.warn(`Article access not allowed (${site.id}/${article.title}): ${denial}`);
+      }
       res.json(article);
     } catch (error) {
+      if (error instanceof ArticleNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error instanceof UnknownSiteError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
       console.error("Error fetching article:", error);
       res.status(500).json({ error: "Failed to fetch article" });
     }
   });
 
+  // Title autocomplete for manual article selection
+  app.get("/api/titles/search", async (req, res) => {
+    const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    const limit = Math.min(Math.max(Number(req.query.limit) || 8, 1), 20);
+    if (!query) {
+      res.json([]);
+      return;
+    }
+
+    try {
+      const site = await getSite(siteParam(req.query));
+      res.json(await site.source.searchTitles(query, limit));
+    } catch (error) {
+      if (error instanceof UnknownSiteError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error("Error searching titles:", error);
+      res.status(500).json({ error: "Failed to search titles" });
+    }
+  });
+
+  // Optimal routes between two articles
+  app.get("/api/path/shortest", async (req, res) => {
+    const parsed = shortestPathQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.issues[0].message });
+      return;
+    }
+
+    try {
+      const { from, to, maxDepth, maxNodes } = parsed.data;
+      const site = await getSite(parsed.data.site);
+
+      // Otherwise a player could look up the route mid-game
+      const denial = solutionAccessDenial(req.get("X-Game-Token"), { site: site.id, title: from }, { site: site.id, title: to });
+      if (denial) {
+        if (config.articleAccess.enforcement === "block") {
+          res.status(403).json({ error: denial });
+          return;
+        }
+        console.warn(`Optimal route access not allowed (${site.id}/${from} -> ${to}): ${denial}`);
+      }
+
+      const result = await solveShortestPath(site, from, to, { maxDepth, maxNodes });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ArticleNotFoundError) {
+        res.status(404).json({ error: error.message, title: error.title });
+        return;
+      }
+      if (error instanceof UnknownSiteError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error("Error finding shortest path:", error);
+      res.status(500).json({ error: "Failed to find shortest path" });
+    }
+  });
+
+  // Wikis games can be played on, beyond the language editions
+  app.get("/api/sites", (_req, res) => {
+    res.json({ defaultSite: defaultSiteId, allowCustom: config.sites.allowCustom });
+  });
+
+  // Article cache hit/miss counters, per site
+  app.get("/api/stats/cache", async (_req, res) => {
+    res.json(await cacheStats());
+  });
+
   return httpServer;
 }
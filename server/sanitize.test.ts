@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { load } from "cheerio";
+import { isValidWikiLink, sanitizeDom } from "./sanitize";
+
+function sanitize(html: string): string {
+  const $ = load(html, null, false);
+  sanitizeDom($);
+  return $.html();
+}
+
+test("scripts and other active elements are dropped with their content", () => {
+  assert.equal(sanitize("<p>a<script>alert(1)</script>b</p>"), "<p>ab</p>");
+  assert.equal(sanitize('<p>a<SCRIPT src="https://evil.example/x.js"></SCRIPT>b</p>'), "<p>ab</p>");
+  assert.equal(sanitize('<div><iframe src="https://evil.example/"></iframe><svg onload="alert(1)"></svg>ok</div>'), "<div>ok</div>");
+  assert.equal(sanitize("<style>body { background: url(https://evil.example/) }</style><p>x</p>"), "<p>x</p>");
+});
+
+test("event handler attributes are stripped", () => {
+  assert.equal(sanitize('<div onclick="alert(1)" onMouseOver="alert(2)">x</div>'), "<div>x</div>");
+  assert.equal(
+    sanitize('<img src="https://upload.wikimedia.org/a.png" onerror="alert(1)" alt="A">'),
+    '<img src="https://upload.wikimedia.org/a.png" alt="A">',
+  );
+});
+
+test("javascript: and data: URLs do not survive", () => {
+  assert.equal(sanitize('<a href="javascript:alert(1)">x</a>'), "x");
+  assert.equal(sanitize('<a href=" JavaScript:alert(1)">x</a>'), "x");
+  assert.equal(sanitize('<a href="data:text/html;base64,PHNjcmlwdD4=">x</a>'), "x");
+  assert.equal(sanitize('<img src="data:image/svg+xml,&lt;svg onload=alert(1)&gt;">'), "");
+  assert.equal(sanitize('<img src="javascript:alert(1)">'), "");
+  // A wiki link whose title is a URL is reduced to its text
+  assert.equal(sanitize('<a href="#" data-wiki-link="javascript:alert(1)">x</a>'), "x");
+});
+
+test("inline styles are stripped", () => {
+  assert.equal(sanitize('<span style="background: url(https://evil.example/track)">t</span>'), "<span>t</span>");
+  assert.equal(sanitize('<td style="position: fixed; inset: 0">t</td>'), "<td>t</td>");
+});
+
+test("wiki links and in-page anchors keep what the client needs", () => {
+  const link = `<a href="#" data-wiki-link="${encodeURIComponent("Café_(film)")}" class="wiki-link">Café</a>`;
+  assert.equal(sanitize(link), link);
+  assert.equal(sanitize('<a href="#History" class="mw-jump">History</a>'), '<a href="#History" class="mw-jump">History</a>');
+  assert.equal(sanitize('<span class="text-muted-foreground">Category</span>'), '<span class="text-muted-foreground">Category</span>');
+});
+
+test("app utility classes are dropped from article markup", () => {
+  assert.equal(sanitize('<div class="fixed inset-0 z-50 infobox">x</div>'), '<div class="infobox">x</div>');
+});
+
+test("wiki link values must be encoded titles", () => {
+  assert.ok(isValidWikiLink("United_States"));
+  assert.ok(isValidWikiLink(encodeURIComponent("Star_Wars:_Episode_IV")));
+  assert.ok(!isValidWikiLink("Two words"));
+  assert.ok(!isValidWikiLink("a<b"));
+  assert.ok(!isValidWikiLink("%E0%A4%A"));
+  assert.ok(!isValidWikiLink(encodeURIComponent("A#B")));
+  assert.ok(!isValidWikiLink(""));
+});
@@ -0,0 +1,136 @@
+import type { CheerioAPI } from "cheerio";
+
+// Allowlist applied to every article before it is sent to the client, which
+// renders it with dangerouslySetInnerHTML. Anything not listed here is
+// dropped, so a hostile article source can only ever produce inert markup.
+
+const ALLOWED_TAGS = new Set([
+  "a", "abbr", "b", "bdi", "big", "blockquote", "br", "caption", "cite", "code",
+  "col", "colgroup", "dd", "del", "dfn", "div", "dl", "dt", "em", "figcaption",
+  "figure", "h1", "h2", "h3", "h4", "h5", "h6", "hr", "i", "img", "ins", "kbd",
+  "li", "mark", "ol", "p", "pre", "q", "s", "samp", "small", "span", "strong",
+  "sub", "sup", "table", "tbody", "td", "tfoot", "th", "thead", "time", "tr",
+  "u", "ul", "var", "wbr",
+]);
+
+// Removed together with their content instead of being unwrapped
+const DROPPED_TAGS = [
+  "script", "style", "noscript", "template", "iframe", "frame", "frameset",
+  "object", "embed", "applet", "form", "input", "button", "select", "textarea",
+  "svg", "math", "link", "meta", "base", "audio", "video", "canvas",
+];
+
+const GLOBAL_ATTRIBUTES = new Set(["class", "id", "title", "lang", "dir"]);
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(["href", "data-wiki-link"]),
+  img: new Set(["src", "alt", "width", "height"]),
+  td: new Set(["colspan", "rowspan"]),
+  th: new Set(["colspan", "rowspan", "scope"]),
+  ol: new Set(["start", "type"]),
+  col: new Set(["span"]),
+  colgroup: new Set(["span"]),
+  time: new Set(["datetime"]),
+};
+
+// Classes produced by our own transformation passes
+const OWN_CLASSES = new Set(["wiki-link", "text-muted-foreground"]);
+
+// MediaWiki content classes. Anything else is dropped so that article markup
+// cannot borrow the app's utility classes to overlay or restyle the UI.
+const MEDIAWIKI_CLASS = /^(mw-|infobox|thumb|wikitable|hatnote|toc|gallery|plainlist|hlist|sidebar|image|tright|tleft|center|nowrap|reference)/;
+
+const ID_FORMAT = /^[A-Za-z0-9_.:-]{1,128}$/;
+const NUMBER_FORMAT = /^\d{1,4}$/;
+const IMAGE_SRC = /^(https:)?\/\/upload\.wikimedia\.org\//;
+
+// Output of encodeURIComponent on an underscore title, nothing else
+const WIKI_LINK_FORMAT = /^(?:[A-Za-z0-9\-_.!~*'()]|%[0-9A-F]{2}){1,765}$/;
+
+export function isValidWikiLink(value: string): boolean {
+  if (!WIKI_LINK_FORMAT.test(value)) return false;
+  try {
+    const title = decodeURIComponent(value);
+    return title.length <= 255 && !/[\s#<>[\]{}|]/.test(title);
+  } catch {
+    return false;
+  }
+}
+
+function isAllowedValue(tag: string, name: string, value: string): boolean {
+  switch (name) {
+    case "href":
+      return value === "#" || (value.startsWith("#") && ID_FORMAT.test(value.slice(1)));
+    case "data-wiki-link":
+      return isValidWikiLink(value);
+    case "id":
+      return ID_FORMAT.test(value);
+    case "src":
+      return tag === "img" && IMAGE_SRC.test(value);
+    case "colspan":
+    case "rowspan":
+    case "span":
+    case "start":
+    case "width":
+    case "height":
+      return NUMBER_FORMAT.test(value);
+    case "dir":
+      return value === "ltr" || value === "rtl" || value === "auto";
+    default:
+      return !/[<>]/.test(value);
+  }
+}
+
+function filterClasses(value: string): string {
+  return value
+    .split(/\s+/)
+    .filter(name => OWN_CLASSES.has(name) || MEDIAWIKI_CLASS.test(name))
+    .join(" ");
+}
+
+export function sanitizeDom($: CheerioAPI): void {
+  $.root()
+    .find("*")
+    .addBack()
+    .contents()
+    .filter((_, node) => node.type === "comment" || node.type === "directive")
+    .remove();
+  $(DROPPED_TAGS.join(",")).remove();
+
+  $("*").each((_, element) => {
+    if (!("tagName" in element)) return;
+    const node = $(element);
+    const tag = element.tagName.toLowerCase();
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      node.replaceWith(node.contents());
+      return;
+    }
+
+    for (const [name, value] of Object.entries(element.attribs)) {
+      const allowed = GLOBAL_ATTRIBUTES.has(name) || TAG_ATTRIBUTES[tag]?.has(name);
+      if (!allowed || !isAllowedValue(tag, name, value)) {
+        node.removeAttr(name);
+      } else if (name === "class") {
+        const classes = filterClasses(value);
+        if (classes) node.attr("class", classes);
+        else node.removeAttr("class");
+      }
+    }
+
+    // Links are either wiki links (exactly href="#" plus data-wiki-link) or
+    // in-page anchors; anything else is reduced to its text
+    if (tag === "a") {
+      const href = node.attr("href");
+      const isWikiLink = href === "#" && node.attr("data-wiki-link") !== undefined;
+      const isAnchor = !!href && href !== "#" && node.attr("data-wiki-link") === undefined;
+      if (!isWikiLink && !isAnchor) {
+        node.replaceWith(node.contents());
+        return;
+      }
+    }
+    if (tag === "img" && !node.attr("src")) {
+      node.remove();
+    }
+  });
+}
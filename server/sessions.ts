@@ -0,0 +1,262 @@
+import { randomUUID } from "crypto";
+import type { GameMode, GameMove, GameRules, GameSession, GameStatus, MoveRequest, PathStep } from "@shared/schema";
+import { isSameArticle } from "@shared/titles";
+import { issueArticleToken } from "./article-tokens";
+import { config } from "./config";
+import { recordResult } from "./leaderboards";
+import { inOrder, validateMove } from "./moves";
+import { storage } from "./storage";
+
+export class GameSessionError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "GameSessionError";
+  }
+}
+
+interface StoredSession {
+  id: string;
+  userId?: string;
+  roomId?: string;
+  mode: GameMode;
+  // Day of the daily challenge the game is played for
+  puzzleDate?: string;
+  site: string;
+  targetSite: string;
+  startArticle: string;
+  targetArticle: string;
+  pinnedAt: number;
+  startedAt: number;
+  rules: GameRules;
+  moves: GameMove[];
+  status: GameStatus;
+  finishedAt?: number;
+}
+
+// Live sessions are kept here; storage gets a copy of every game for the
+// player's history
+const sessions = new Map<string, StoredSession>();
+
+export function currentRules(overrides: Partial<GameRules> = {}): GameRules {
+  return {
+    timeLimitSeconds: config.game.timeLimitSeconds,
+    scoutingAllowed: config.articleAccess.scoutingAllowed,
+    ...overrides,
+  };
+}
+
+// Storage writes of one game run in order, so its row exists before its
+// moves and the last status written wins. A failed write is logged and the
+// game goes on.
+function persist(id: string, task: () => Promise<unknown>): Promise<void> {
+  return inOrder(`store:${id}`, task).then(
+    () => {},
+    error => {
+      console.error("Error saving game:", error);
+    },
+  );
+}
+
+function persistOutcome(session: StoredSession): void {
+  const { id, status, finishedAt } = session;
+  persist(id, () => storage.updateGame(id, { status, finishedAt: finishedAt ? new Date(finishedAt) : null }));
+}
+
+function deadline(session: StoredSession): number {
+  return session.startedAt + session.rules.timeLimitSeconds * 1000;
+}
+
+// Ends a session whose clock ran out. Time only counts on the server, so a
+// late move is refused however the client's timer got there.
+function settle(session: StoredSession, now: number): void {
+  if (session.status === "playing" && now >= deadline(session)) {
+    session.status = "lost";
+    session.finishedAt = deadline(session);
+    persistOutcome(session);
+  }
+}
+
+function sweep(now: number): void {
+  for (const [id, session] of Array.from(sessions.entries())) {
+    settle(session, now);
+    const end = session.finishedAt ?? deadline(session);
+    if (now - end > config.game.sessionRetentionMs) sessions.delete(id);
+  }
+}
+
+function view(session: StoredSession): GameSession {
+  const now = Date.now();
+  settle(session, now);
+  // Who played and how stays on the server
+  const { userId, roomId, mode, puzzleDate, ...shown } = session;
+  return {
+    ...shown,
+    moves: session.moves.slice(),
+    clicks: session.moves.length,
+    // Frozen at the moment a finished game ended
+    timeLeftSeconds: Math.max(0, Math.ceil((deadline(session) - (session.finishedAt ?? now)) / 1000)),
+    articleToken: issueArticleToken(session.id),
+  };
+}
+
+function find(id: string): StoredSession {
+  const session = sessions.get(id);
+  if (!session) throw new GameSessionError(404, "Game not found");
+  return session;
+}
+
+// Daily games pass an `id` they have already claimed the day's play with
+export function createSession(
+  game: {
+    id?: string;
+    mode: GameMode;
+    userId?: string;
+    roomId?: string;
+    puzzleDate?: string;
+    site: string;
+    targetSite: string;
+    startArticle: string;
+    targetArticle: string;
+    pinnedAt: number;
+  },
+  rules: Partial<GameRules> = {},
+): GameSession {
+  const now = Date.now();
+  sweep(now);
+
+  const session: StoredSession = {
+    id: game.id ?? randomUUID(),
+    userId: game.userId,
+    roomId: game.roomId,
+    mode: game.mode,
+    puzzleDate: game.puzzleDate,
+    site: game.site,
+    targetSite: game.targetSite,
+    startArticle: game.startArticle,
+    targetArticle: game.targetArticle,
+    pinnedAt: game.pinnedAt,
+    startedAt: now,
+    rules: currentRules(rules),
+    moves: [],
+    status: "playing",
+  };
+  sessions.set(session.id, session);
+  persist(session.id, () =>
+    storage.createGame({
+      id: session.id,
+      userId: session.userId ?? null,
+      roomId: session.roomId ?? null,
+      mode: session.mode,
+      site: session.site,
+      targetSite: session.targetSite,
+      startArticle: session.startArticle,
+      targetArticle: session.targetArticle,
+      pinnedAt: new Date(session.pinnedAt),
+      rules: session.rules,
+      status: session.status,
+      startedAt: new Date(session.startedAt),
+      puzzleDate: session.puzzleDate ?? null,
+    }),
+  );
+  return view(session);
+}
+
+export function getSession(id: string): GameSession {
+  return view(find(id));
+}
+
+// Whether the server still tracks the game; stored games it has lost track
+// of can no longer finish
+export function isLive(id: string): boolean {
+  return sessions.has(id);
+}
+
+const FINISHED_MESSAGES: Record<Exclude<GameStatus, "playing">, string> = {
+  won: "The game is already won",
+  lost: "Time is up",
+  abandoned: "The game was abandoned",
+};
+
+// Records a click and decides whether it won the game. The move must follow
+// a link on the current article (an InvalidMoveError says why not); titles
+// are resolved on the server, so a redirect to the target reaches it.
+export async function recordMove(id: string, move: MoveRequest): Promise<GameSession> {
+  const session = find(id);
+  const at = Date.now();
+
+  return inOrder(`game:${id}`, async () => {
+    settle(session, at);
+    if (session.status !== "playing") {
+      throw new GameSessionError(409, FINISHED_MESSAGES[session.status]);
+    }
+
+    const current = session.moves[session.moves.length - 1] ?? { site: session.site, title: session.startArticle };
+    const step = await validateMove(session, current, move);
+
+    session.moves.push({ ...step, at });
+    const index = session.moves.length;
+    persist(id, () => storage.addMove({ gameId: id, index, site: step.site, title: step.title, at: new Date(at) }));
+
+    if (isSameArticle(step, { site: session.targetSite, title: session.targetArticle })) {
+      session.status = "won";
+      session.finishedAt = at;
+      persistOutcome(session);
+      // Waited for, so the leaderboard shown after the win includes it
+      await persist(id, () =>
+        recordResult({
+          ...session,
+          gameId: id,
+          clicks: session.moves.length,
+          durationMs: at - session.startedAt,
+          finishedAt: new Date(at),
+        }),
+      );
+    }
+    return view(session);
+  });
+}
+
+// Ends a game the player left. Finished games keep their outcome.
+export async function abandonSession(id: string): Promise<GameSession> {
+  const session = find(id);
+  const at = Date.now();
+
+  return inOrder(`game:${id}`, async () => {
+    settle(session, at);
+    if (session.status === "playing") {
+      session.status = "abandoned";
+      session.finishedAt = at;
+      persistOutcome(session);
+    }
+    return view(session);
+  });
+}
+
+// Whether the player of a game may see optimal routes from `from` to `to`:
+// only on the game's own pair, and only once that game is over. Scouting
+// does not count: its rules come from the client, which could start a
+// scouting game on a ranked pair just to read the route.
+export function mayRevealSolution(id: string, from: PathStep, to: PathStep): boolean {
+  const session = sessions.get(id);
+  if (!session) return false;
+  settle(session, Date.now());
+  const ownPair =
+    isSameArticle(from, { site: session.site, title: session.startArticle }) &&
+    isSameArticle(to, { site: session.targetSite, title: session.targetArticle });
+  return ownPair && session.status !== "playing";
+}
+
+// Whether the player of a game may read `article` now: one they have
+// reached, or any article when the game allows scouting. Waits for moves
+// still being checked, since a click and the article request it triggers
+// can arrive in either order.
+export async function mayReadArticle(id: string, article: PathStep): Promise<boolean> {
+  const session = sessions.get(id);
+  if (!session) return false;
+  if (session.rules.scoutingAllowed) return true;
+
+  return inOrder(`game:${id}`, async () => {
+    const reached = [{ site: session.site, title: session.startArticle }, ...session.moves];
+    return reached.some(step => isSameArticle(step, article));
+  });
+}
@@ -1,32 +1,104 @@
 import { Server } from "socket.io";
-import { type Server as HttpServer } from "http";
+import { type IncomingMessage, type Server as HttpServer, type ServerResponse } from "http";
+import type { Request } from "express";
+import passport from "passport";
+import { z } from "zod";
+import { contentPolicySettingsSchema, pathStepSchema, type ContentPolicySettings, type PathStep } from "@shared/schema";
+import { deploymentPolicy, withRoomSettings, type ContentPolicy } from "./content-policy";
+import { ArticleValidationError, enforceContentPolicy, resolveManualPair } from "./pairs";
+import { UnknownSiteError, getSite } from "./articles";
+import { config } from "./config";
+import { InvalidMoveError, inOrder, validateMove, verifyPath, type MoveContext } from "./moves";
+import { sessionMiddleware } from "./auth";
+import { generateName } from "./names";
+import { storage } from "./storage";
 
+// Players are identified by their account when they have one (a guest
+// counts), so a second tab or a reconnect is the same player; anonymous
+// sockets fall back to the socket id
 interface PlayerState {
     id: string;
+    socketId: string;
     name: string;
     clicks: number;
+    currentSite: string;
     currentArticle: string;
-    history: string[];
+    history: PathStep[];
 }
 
+// A room's current pair of articles. A new object per round, so checks
+// that finish after a reset can tell. `pinnedAt` is the reference time the
+// round's articles are read at.
+interface Round extends MoveContext {
+    startArticle: string;
+    targetArticle: string;
+    pinnedAt: number;
+    // Players whose win was verified, in the order they finished; each is
+    // announced once
+    winners: string[];
+}
+
+const progressSchema = z.object({
+    roomId: z.string(),
+    currentSite: z.string().optional(),
+    currentArticle: z.string().min(1),
+});
+
+const winClaimSchema = z.object({
+    roomId: z.string(),
+    path: z.array(pathStepSchema),
+});
+
 interface Room {
     id: string;
-    players: string[]; // socket IDs
+    players: string[]; // player IDs
     gameState: "waiting" | "playing" | "finished";
-    startArticle?: string;
-    targetArticle?: string;
+    round?: Round;
     playerStates: Record<string, PlayerState>;
+    // Host's additions to the deployment content policy
+    contentPolicy?: ContentPolicySettings;
 }
 
 const rooms: Record<string, Room> = {};
 
-const ADJECTIVES = ["Neon", "Cyber", "Mega", "Super", "Ultra", "Quantum", "Pixel", "Techno", "Retro", "Binary"];
-const ANIMALS = ["Fox", "Owl", "Wolf", "Bear", "Cat", "Dog", "Hawk", "Eagle", "Shark", "Dragon"];
+// The round a room is playing, or null between rounds
+function roundOf(room: Room): Round | null {
+    return room.gameState === "playing" ? room.round ?? null : null;
+}
+
+// Rooms are served from memory; storage keeps a record of them and their settings
+function persistRoom(room: Room) {
+    storage.saveRoom({ id: room.id, hostId: room.players[0], contentPolicy: room.contentPolicy ?? null }).catch(error => {
+        console.error("Error saving room:", error);
+    });
+}
 
-function generateName(): string {
-    const adj = ADJECTIVES[Math.floor(Math.random() * ADJECTIVES.length)];
-    const animal = ANIMALS[Math.floor(Math.random() * ANIMALS.length)];
-    return `${adj} ${animal}`;
+// Effective content policy for a room, or the deployment's for unknown rooms
+export function roomContentPolicy(roomId?: string): ContentPolicy {
+    const room = roomId ? rooms[roomId] : undefined;
+    return withRoomSettings(deploymentPolicy, room?.contentPolicy);
+}
+
+// Reference time of the round a room is playing, which games joining the
+// round read their articles at
+export function roomPinnedAt(roomId?: string): number | undefined {
+    const room = roomId ? rooms[roomId] : undefined;
+    return room ? roundOf(room)?.pinnedAt : undefined;
+}
+
+type Middleware = (req: IncomingMessage, res: ServerResponse, next: (error?: unknown) => void) => void;
+
+// Runs an Express middleware on the handshake request only; later polling
+// requests of the same connection carry a `sid` and need no session
+function onlyForHandshake(middleware: Middleware): Middleware {
+    return (req, res, next) => {
+        const isHandshake = (req as IncomingMessage & { _query: Record<string, string> })._query.sid === undefined;
+        if (isHandshake) {
+            middleware(req, res, next);
+        } else {
+            next();
+        }
+    };
 }
 
 export function setupSocket(httpServer: HttpServer) {
@@ -39,30 +111,38 @@ export function setupSocket(httpServer: HttpServer) {
         },
     });
 
+    io.engine.use(onlyForHandshake(sessionMiddleware as unknown as Middleware));
+    io.engine.use(onlyForHandshake(passport.session() as unknown as Middleware));
+
     io.on("connection", (socket) => {
-        console.log("New client connected:", socket.id);
+        const user = (socket.request as Request).user;
+        const playerId = user?.id ?? socket.id;
+        console.log(`New client connected: ${socket.id}${user ? ` (user ${user.id})` : ""}`);
 
         socket.on("create_room", ({ username }: { username: string }, callback) => {
             const roomId = Math.random().toString(36).substring(2, 8).toUpperCase();
-            const playerName = username || generateName();
+            const playerName = username || user?.displayName || generateName();
 
             rooms[roomId] = {
                 id: roomId,
-                players: [socket.id],
+                players: [playerId],
                 gameState: "waiting",
                 playerStates: {
-                    [socket.id]: {
-                        id: socket.id,
+                    [playerId]: {
+                        id: playerId,
+                        socketId: socket.id,
                         name: playerName,
                         clicks: 0,
+                        currentSite: "",
                         currentArticle: "",
                         history: [],
                     },
                 },
             };
             socket.join(roomId);
-            callback({ roomId, players: [{ id: socket.id, name: playerName }] });
-            console.log(`Room created: ${roomId} by ${playerName} (${socket.id})`);
+            persistRoom(rooms[roomId]);
+            callback({ roomId, playerId, players: [{ id: playerId, name: playerName }] });
+            console.log(`Room created: ${roomId} by ${playerName} (${playerId})`);
         });
 
         socket.on("join_room", ({ roomId, username }: { roomId: string, username: string }, callback) => {
@@ -71,6 +151,22 @@ export function setupSocket(httpServer: HttpServer) {
                 callback({ error: "Room not found" });
                 return;
             }
+
+            const allPlayers = () => room.players.map(pid => ({
+                id: pid,
+                name: room.playerStates[pid].name
+            }));
+
+            // The same player from another tab or after a reconnect takes
+            // over their seat, even mid-game
+            const seat = room.playerStates[playerId];
+            if (seat) {
+                seat.socketId = socket.id;
+                socket.join(roomId);
+                callback({ success: true, roomId, playerId, players: allPlayers() });
+                return;
+            }
+
             if (room.gameState !== "waiting") {
                 callback({ error: "Game already started" });
                 return;
@@ -80,85 +176,200 @@ export function setupSocket(httpServer: HttpServer) {
                 return;
             }
 
-            const playerName = username || generateName();
-            room.players.push(socket.id);
-            room.playerStates[socket.id] = {
-                id: socket.id,
+            const playerName = username || user?.displayName || generateName();
+            room.players.push(playerId);
+            room.playerStates[playerId] = {
+                id: playerId,
+                socketId: socket.id,
                 name: playerName,
                 clicks: 0,
+                currentSite: "",
                 currentArticle: "",
                 history: [],
             };
             socket.join(roomId);
 
-            const allPlayers = room.players.map(pid => ({
-                id: pid,
-                name: room.playerStates[pid].name
-            }));
+            callback({ success: true, roomId, playerId, players: allPlayers() });
 
-            callback({ success: true, roomId, players: allPlayers });
+            console.log(`Player ${playerName} (${playerId}) joined room ${roomId}`);
+            io.to(roomId).emit("player_joined", { players: allPlayers() });
+        });
 
-            console.log(`Player ${playerName} (${socket.id}) joined room ${roomId}`);
-            io.to(roomId).emit("player_joined", { players: allPlayers });
+        socket.on("update_room_settings", ({ roomId, contentPolicy }: { roomId: string, contentPolicy: unknown }, callback) => {
+            const room = rooms[roomId];
+            if (!room || room.players[0] !== playerId) {
+                callback?.({ error: "Only the host can change room settings" });
+                return;
+            }
+            const parsed = contentPolicySettingsSchema.safeParse(contentPolicy);
+            if (!parsed.success) {
+                callback?.({ error: "Invalid content policy" });
+                return;
+            }
+            room.contentPolicy = parsed.data;
+            persistRoom(room);
+            callback?.({ success: true });
+            console.log(`Content policy updated in room ${roomId}`);
         });
 
-        socket.on("start_game", async ({ roomId, start, target }: { roomId: string, start: string, target: string }) => {
+        socket.on("start_game", async ({ roomId, start, target, site: siteId, targetSite: targetSiteId, scoutingAllowed }: { roomId: string, start: string, target: string, site?: string, targetSite?: string, scoutingAllowed?: boolean }, callback) => {
             const room = rooms[roomId];
-            if (!room) return;
+            if (!room) {
+                callback?.({ error: "Room not found" });
+                return;
+            }
+            // The host picks the pair and the content policy it is checked against
+            if (room.players[0] !== playerId) {
+                callback?.({ error: "Only the host can start the game" });
+                return;
+            }
 
             if (room.players.length < 2) {
                 // Should be handled by client but good to enforce
+                callback?.({ error: "At least 2 players are needed to start" });
                 return;
             }
 
-            room.startArticle = start;
-            room.targetArticle = target;
+            // The lobby picks pairs through /api/game/new, but a client can
+            // send any titles here, so they are resolved and the room's
+            // policy is enforced again. Resolving first keeps a redirect to
+            // a blocked article from passing under another name.
+            let warnings: string[];
+            let site: string;
+            let targetSite: string;
+            let startArticle: string;
+            let targetArticle: string;
+            try {
+                const resolved = await getSite(siteId);
+                const resolvedTarget = targetSiteId ? await getSite(targetSiteId) : resolved;
+                [startArticle, targetArticle] = await resolveManualPair([resolved, resolvedTarget], start, target);
+                warnings = await enforceContentPolicy([resolved, resolvedTarget], [startArticle, targetArticle], roomContentPolicy(roomId));
+                site = resolved.id;
+                targetSite = resolvedTarget.id;
+            } catch (error) {
+                if (error instanceof ArticleValidationError) {
+                    callback?.({ error: error.message, fields: error.fields });
+                    return;
+                }
+                if (error instanceof UnknownSiteError) {
+                    callback?.({ error: error.message });
+                    return;
+                }
+                console.error("Error checking content policy:", error);
+                callback?.({ error: "Failed to start game" });
+                return;
+            }
+
+            room.round = { site, targetSite, pinnedAt: Date.now(), startArticle, targetArticle, winners: [] };
             room.gameState = "playing";
 
             // Reset stats just in case
             room.players.forEach(pid => {
                 if (room.playerStates[pid]) {
                     room.playerStates[pid].clicks = 0;
-                    room.playerStates[pid].currentArticle = start;
-                    room.playerStates[pid].history = [start];
+                    room.playerStates[pid].currentSite = site;
+                    room.playerStates[pid].currentArticle = startArticle;
+                    room.playerStates[pid].history = [{ site, title: startArticle }];
                 }
             });
 
-            io.to(roomId).emit("game_started", { start, target });
-            console.log(`Game started in room ${roomId}: ${start} -> ${target}`);
+            io.to(roomId).emit("game_started", { start: startArticle, target: targetArticle, site, targetSite, pinnedAt: room.round.pinnedAt, scoutingAllowed: scoutingAllowed ?? config.articleAccess.scoutingAllowed, warnings });
+            callback?.({ success: true });
+            console.log(`Game started in room ${roomId}: ${startArticle} -> ${targetArticle}`);
         });
 
-        socket.on("update_progress", ({ roomId, currentArticle, clicks }) => {
+        // Moves are checked against the links of the player's current
+        // article; the server counts the clicks
+        socket.on("update_progress", (payload: unknown, callback) => {
+            const parsed = progressSchema.safeParse(payload);
+            if (!parsed.success) {
+                callback?.({ error: "Invalid move" });
+                return;
+            }
+            const { roomId, currentSite, currentArticle } = parsed.data;
             const room = rooms[roomId];
-            if (!room || room.gameState !== "playing") return;
+            const game = room && roundOf(room);
+            const player = room?.playerStates[playerId];
+            if (!game || !player) return;
 
-            const player = room.playerStates[socket.id];
-            if (player) {
-                player.currentArticle = currentArticle;
-                player.clicks = clicks;
-                player.history.push(currentArticle);
+            inOrder(`room:${roomId}:${playerId}`, async () => {
+                const from = player.history[player.history.length - 1];
+                const step = await validateMove(game, from, { site: currentSite, title: currentArticle });
+                // The round may have been reset while the move was checked
+                if (roundOf(room) !== game) return;
+
+                player.currentSite = step.site;
+                player.currentArticle = step.title;
+                player.history.push(step);
+                player.clicks = player.history.length - 1;
 
                 socket.to(roomId).emit("opponent_progress", {
-                    playerId: socket.id,
+                    playerId,
                     name: player.name,
-                    currentArticle,
-                    clicks
+                    currentSite: step.site,
+                    currentArticle: step.title,
+                    clicks: player.clicks
                 });
-            }
+                callback?.({ success: true, clicks: player.clicks });
+            }).catch(error => {
+                if (error instanceof InvalidMoveError) {
+                    callback?.({ error: error.message, reason: error.reason });
+                    return;
+                }
+                console.error("Error checking move:", error);
+                callback?.({ error: "Failed to check move" });
+            });
         });
 
-        socket.on("game_win", ({ roomId, path }: { roomId: string, path: string[] }) => {
+        // A win is only announced once every step of the claimed path has
+        // been checked
+        socket.on("game_win", async (payload: unknown, callback) => {
+            const parsed = winClaimSchema.safeParse(payload);
+            if (!parsed.success) {
+                callback?.({ error: "Invalid win claim" });
+                return;
+            }
+            const { roomId, path } = parsed.data;
             const room = rooms[roomId];
-            if (!room || room.gameState !== "playing") return;
+            const game = room && roundOf(room);
+            const player = room?.playerStates[playerId];
+            if (!game || !player) return;
+            if (game.winners.includes(playerId)) {
+                callback?.({ success: true });
+                return;
+            }
+
+            let verified: PathStep[];
+            try {
+                verified = await verifyPath(game, path);
+            } catch (error) {
+                if (error instanceof InvalidMoveError) {
+                    console.warn(`Rejected win claim by ${player.name} in room ${roomId}: ${error.message}`);
+                    callback?.({ error: error.message, reason: error.reason });
+                    return;
+                }
+                console.error("Error verifying win:", error);
+                callback?.({ error: "Failed to verify win" });
+                return;
+            }
+            // The round may have been reset while the path was checked, or a
+            // repeated claim may have been verified first
+            if (roundOf(room) !== game) return;
+            if (game.winners.includes(playerId)) {
+                callback?.({ success: true });
+                return;
+            }
+            game.winners.push(playerId);
 
             // Do NOT end game for everyone
             // room.gameState = "finished"; 
 
-            const winnerName = room.playerStates[socket.id].name;
+            const winnerName = player.name;
             console.log(`Player ${winnerName} won in room ${roomId}`);
 
             // Broadcast that SOMEONE won, but game continues
-            io.to(roomId).emit("player_won", { winnerId: socket.id, winnerName, path });
+            io.to(roomId).emit("player_won", { winnerId: playerId, winnerName, path: verified, pinnedAt: game.pinnedAt });
+            callback?.({ success: true });
         });
 
         socket.on("return_to_lobby", ({ roomId }: { roomId: string }) => {
@@ -174,19 +385,24 @@ export function setupSocket(httpServer: HttpServer) {
             console.log("Client disconnected:", socket.id);
             for (const roomId in rooms) {
                 const room = rooms[roomId];
-                if (room.players.includes(socket.id)) {
-                    console.log(`Removing player ${socket.id} from room ${roomId}`);
-                    room.players = room.players.filter(id => id !== socket.id);
+                // A seat taken over by another tab stays
+                if (room.playerStates[playerId]?.socketId === socket.id) {
+                    console.log(`Removing player ${playerId} from room ${roomId}`);
+                    room.players = room.players.filter(id => id !== playerId);
+                    delete room.playerStates[playerId];
 
                     const remainingPlayers = room.players.map(pid => ({
                         id: pid,
                         name: room.playerStates[pid].name
                     }));
 
-                    io.to(roomId).emit("player_left", { playerId: socket.id, players: remainingPlayers });
+                    io.to(roomId).emit("player_left", { playerId, players: remainingPlayers });
 
                     if (room.players.length === 0) {
                         delete rooms[roomId];
+                        storage.deleteRoom(roomId).catch(error => {
+                            console.error("Error deleting room:", error);
+                        });
                         console.log(`Room ${roomId} deleted (empty)`);
                     }
                 }
@@ -0,0 +1,198 @@
+import type { ShortestPathResult } from "@shared/schema";
+import { config } from "./config";
+import { ArticleNotFoundError, type ArticleSource } from "./article-source";
+import { defaultSiteId, type Site } from "./articles";
+import { TieredCache } from "./cache";
+import { linkGraphStore, type LinkGraphStore } from "./graph-store";
+
+// Directed article graph the solver walks. Neighbours are canonical titles.
+export interface LinkGraph {
+  outgoing(title: string): Promise<string[]>;
+  incoming(title: string): Promise<string[]>;
+}
+
+export interface SolverOptions {
+  maxDepth: number;
+  // Maximum number of articles whose links are fetched
+  maxNodes: number;
+  maxPaths: number;
+  concurrency: number;
+}
+
+const NEIGHBOUR_CACHE_SIZE = 5000;
+
+function memoize(fetch: (title: string) => Promise<string[]>): (title: string) => Promise<string[]> {
+  const cache = new TieredCache<string[]>({
+    maxEntries: NEIGHBOUR_CACHE_SIZE,
+    memoryTtlMs: config.articleCache.memoryTtlMs,
+    diskTtlMs: 0,
+  });
+  return (title) => cache.getOrLoad(title, () => fetch(title));
+}
+
+export function sourceLinkGraph(source: ArticleSource): LinkGraph {
+  return {
+    outgoing: memoize(title => source.getLinks(title)),
+    incoming: memoize(title => source.getBacklinks(title, config.solver.maxBacklinks)),
+  };
+}
+
+export function storeLinkGraph(store: LinkGraphStore, source: ArticleSource): LinkGraph {
+  return {
+    outgoing: memoize(async title => (await store.outgoing(title)) ?? source.getLinks(title)),
+    incoming: memoize(title => store.incoming(title, config.solver.maxBacklinks)),
+  };
+}
+
+if (config.solver.graph === "store" && !linkGraphStore) {
+  throw new Error("SOLVER_GRAPH=store requires DATABASE_URL");
+}
+
+const solverGraphs = new Map<string, LinkGraph>();
+
+// The stored graph only covers the default site; other sites are always
+// solved against their source
+function solverGraph(site: Site): LinkGraph {
+  let graph = solverGraphs.get(site.id);
+  if (!graph) {
+    graph = config.solver.graph === "store" && linkGraphStore && site.id === defaultSiteId
+      ? storeLinkGraph(linkGraphStore, site.source)
+      : sourceLinkGraph(site.source);
+    solverGraphs.set(site.id, graph);
+  }
+  return graph;
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+// Node -> every node one step closer to the search root that reaches it
+type Parents = Map<string, string[]>;
+
+function pathsFromRoot(node: string, parents: Parents, limit: number): string[][] {
+  const previous = parents.get(node) || [];
+  if (previous.length === 0) return [[node]];
+
+  const paths: string[][] = [];
+  for (const parent of previous) {
+    for (const path of pathsFromRoot(parent, parents, limit - paths.length)) {
+      paths.push([...path, node]);
+      if (paths.length >= limit) return paths;
+    }
+  }
+  return paths;
+}
+
+// Bidirectional BFS: grows a forward tree from `from` over outgoing links and
+// a backward tree from `to` over incoming links, always expanding the smaller
+// frontier by one full layer. The first layer that touches the other tree
+// holds every meeting point of every shortest path.
+export async function findShortestPaths(
+  graph: LinkGraph,
+  from: string,
+  to: string,
+  options: SolverOptions,
+): Promise<ShortestPathResult> {
+  if (from === to) {
+    return { status: "found", from, to, distance: 0, paths: [[from]], explored: 0 };
+  }
+
+  const forward: Parents = new Map([[from, []]]);
+  const backward: Parents = new Map([[to, []]]);
+  let forwardFrontier = [from];
+  let backwardFrontier = [to];
+  let depth = 0;
+  let explored = 0;
+
+  while (forwardFrontier.length > 0 && backwardFrontier.length > 0 && depth < options.maxDepth) {
+    const expandForward = forwardFrontier.length <= backwardFrontier.length;
+    const frontier = expandForward ? forwardFrontier : backwardFrontier;
+    const visited = expandForward ? forward : backward;
+    const other = expandForward ? backward : forward;
+
+    if (explored + frontier.length > options.maxNodes) {
+      return { status: "not_found", from, to, reason: "budget", explored };
+    }
+
+    const neighbours = await mapWithConcurrency(frontier, options.concurrency, title =>
+      expandForward ? graph.outgoing(title) : graph.incoming(title),
+    );
+    explored += frontier.length;
+
+    const layer = new Set<string>();
+    frontier.forEach((node, i) => {
+      for (const neighbour of neighbours[i]) {
+        if (!visited.has(neighbour)) {
+          visited.set(neighbour, [node]);
+          layer.add(neighbour);
+        } else if (layer.has(neighbour)) {
+          visited.get(neighbour)!.push(node);
+        }
+      }
+    });
+
+    depth++;
+    const next = Array.from(layer);
+    if (expandForward) forwardFrontier = next;
+    else backwardFrontier = next;
+
+    const meetings = next.filter(node => other.has(node));
+    if (meetings.length > 0) {
+      const paths: string[][] = [];
+      for (const meeting of meetings) {
+        for (const head of pathsFromRoot(meeting, forward, options.maxPaths)) {
+          for (const tail of pathsFromRoot(meeting, backward, options.maxPaths)) {
+            paths.push([...head, ...tail.reverse().slice(1)]);
+            if (paths.length >= options.maxPaths) break;
+          }
+          if (paths.length >= options.maxPaths) break;
+        }
+        if (paths.length >= options.maxPaths) break;
+      }
+      return { status: "found", from, to, distance: depth, paths, explored };
+    }
+  }
+
+  return { status: "not_found", from, to, reason: "exhausted", explored };
+}
+
+const resultCache = new TieredCache<ShortestPathResult>({
+  maxEntries: 1000,
+  memoryTtlMs: config.articleCache.diskTtlMs,
+  diskTtlMs: 0,
+});
+
+// Resolves both titles and solves with the configured limits, optionally
+// tightened by the caller. Results are cached per pair and limits.
+export async function solveShortestPath(
+  site: Site,
+  from: string,
+  to: string,
+  limits: Partial<Pick<SolverOptions, "maxDepth" | "maxNodes">> = {},
+): Promise<ShortestPathResult> {
+  const [start, target] = await Promise.all([site.source.resolveTitle(from), site.source.resolveTitle(to)]);
+  if (!start) throw new ArticleNotFoundError(from);
+  if (!target) throw new ArticleNotFoundError(to);
+
+  const options: SolverOptions = {
+    maxDepth: Math.min(limits.maxDepth ?? Infinity, config.solver.maxDepth),
+    maxNodes: Math.min(limits.maxNodes ?? Infinity, config.solver.maxNodes),
+    maxPaths: config.solver.maxPaths,
+    concurrency: config.solver.concurrency,
+  };
+
+  const key = [site.id, start.title, target.title, options.maxDepth, options.maxNodes].join("\n");
+  return resultCache.getOrLoad(key, () =>
+    findShortestPaths(solverGraph(site), start.title, target.title, options),
+  );
+}
@@ -0,0 +1,292 @@
+import fs from "fs/promises";
+import path from "path";
+import {
+  ArticleNotFoundError,
+  toTitleKey,
+  type ArticleSource,
+  type LanguageLink,
+  type PageInfo,
+  type RawArticle,
+  type ResolvedTitle,
+  type SiteInfo,
+  type TitleMatch,
+} from "../article-source";
+
+// A fixture is either `<Title>.html` (rendered article body, links taken from
+// its /wiki/ hrefs) or `<Title>.json` with the shape below. File names are the
+// underscore title, URI-encoded where needed ("AC%2FDC.json").
+interface FixtureFile {
+  title?: string;
+  html?: string;
+  links?: string[];
+  redirect?: string;
+  namespace?: number;
+  disambiguation?: boolean;
+  description?: string;
+  categories?: string[];
+  // Same article in other editions, by language code: { "de": "Mond" }
+  languageLinks?: Record<string, string>;
+}
+
+interface Fixture {
+  title: string;
+  html: string;
+  links: string[];
+  redirect?: string;
+  namespace: number;
+  isDisambiguation: boolean;
+  description?: string;
+  categories: string[];
+  languageLinks: LanguageLink[];
+}
+
+const MAX_REDIRECTS = 5;
+
+// Fixtures follow English Wikipedia, whose non-article namespaces these are
+const SITE_INFO: SiteInfo = {
+  articlePath: "/wiki/$1",
+  namespacePrefixes: [
+    "media", "special", "talk", "user", "user_talk", "wikipedia", "wikipedia_talk", "wp", "project",
+    "file", "file_talk", "image", "mediawiki", "mediawiki_talk", "template", "template_talk", "help",
+    "help_talk", "category", "category_talk", "portal", "portal_talk", "draft", "draft_talk",
+    "timedtext", "timedtext_talk", "module", "module_talk", "book", "book_talk",
+  ],
+};
+
+function extractLinks(html: string): string[] {
+  const links = new Set<string>();
+  for (const match of Array.from(html.matchAll(/href="\/wiki\/([^"#]+)/g))) {
+    const title = toTitleKey(decodeURIComponent(match[1]));
+    if (!title.includes(":")) links.add(title);
+  }
+  return Array.from(links);
+}
+
+// First sentence of the lead paragraph, standing in for a short description
+function describe(html: string): string | undefined {
+  const paragraph = html.match(/<p[^>]*>([\s\S]*?)<\/p>/);
+  if (!paragraph) return undefined;
+  const text = paragraph[1].replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim();
+  const sentence = text.split(/(?<=\.)\s/)[0];
+  return sentence.length > 100 ? `${sentence.slice(0, 97)}...` : sentence;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export class FixtureArticleSource implements ArticleSource {
+  private fixtures: Promise<Map<string, Fixture>> | null = null;
+  private backlinks: Promise<Map<string, string[]>> | null = null;
+
+  constructor(private dir: string, readonly name = "fixtures") {}
+
+  async getSiteInfo(): Promise<SiteInfo> {
+    return SITE_INFO;
+  }
+
+  private load(): Promise<Map<string, Fixture>> {
+    if (!this.fixtures) {
+      this.fixtures = this.readDir();
+    }
+    return this.fixtures;
+  }
+
+  private async readDir(): Promise<Map<string, Fixture>> {
+    const dir = path.resolve(this.dir);
+    const fixtures = new Map<string, Fixture>();
+
+    for (const file of await fs.readdir(dir)) {
+      const ext = path.extname(file);
+      if (ext !== ".json" && ext !== ".html") continue;
+
+      const raw = await fs.readFile(path.join(dir, file), "utf-8");
+      const fromName = toTitleKey(decodeURIComponent(path.basename(file, ext)));
+      const parsed: FixtureFile = ext === ".json" ? JSON.parse(raw) : { html: raw };
+      const title = toTitleKey(parsed.title || fromName);
+      const html = parsed.html || "";
+
+      fixtures.set(title, {
+        title,
+        html,
+        links: (parsed.links || extractLinks(html)).map(toTitleKey),
+        redirect: parsed.redirect ? toTitleKey(parsed.redirect) : undefined,
+        namespace: parsed.namespace ?? 0,
+        isDisambiguation: parsed.disambiguation ?? false,
+        description: parsed.description ?? describe(html),
+        categories: (parsed.categories || []).map(toTitleKey),
+        languageLinks: Object.entries(parsed.languageLinks || {}).map(([site, title]) => ({
+          site,
+          title: toTitleKey(title),
+        })),
+      });
+    }
+
+    return fixtures;
+  }
+
+  private async lookup(title: string): Promise<Fixture | undefined> {
+    const fixtures = await this.load();
+    const key = toTitleKey(title);
+    return fixtures.get(key) || fixtures.get(key.charAt(0).toUpperCase() + key.slice(1));
+  }
+
+  async resolveTitle(title: string): Promise<ResolvedTitle | null> {
+    const redirects: string[] = [];
+    let fixture = await this.lookup(title);
+
+    while (fixture?.redirect && redirects.length < MAX_REDIRECTS) {
+      redirects.push(fixture.title);
+      fixture = await this.lookup(fixture.redirect);
+    }
+
+    if (!fixture || fixture.redirect) return null;
+    return {
+      title: fixture.title,
+      redirects,
+      namespace: fixture.namespace,
+      isDisambiguation: fixture.isDisambiguation,
+    };
+  }
+
+  async suggestTitles(query: string, limit: number): Promise<string[]> {
+    const needle = toTitleKey(query).toLowerCase();
+    const maxDistance = Math.max(2, Math.floor(needle.length / 3));
+
+    return Array.from((await this.load()).values())
+      .filter(fixture => !fixture.redirect && fixture.namespace === 0)
+      .map(fixture => {
+        const title = fixture.title.toLowerCase();
+        const distance = title.includes(needle) ? 0 : editDistance(needle, title);
+        return { title: fixture.title, distance };
+      })
+      .filter(candidate => candidate.distance <= maxDistance)
+      .sort((a, b) => a.distance - b.distance || a.title.localeCompare(b.title))
+      .slice(0, limit)
+      .map(candidate => candidate.title);
+  }
+
+  private async resolveFixture(title: string): Promise<{ fixture: Fixture; redirects: string[] }> {
+    const resolved = await this.resolveTitle(title);
+    const fixture = resolved && (await this.lookup(resolved.title));
+    if (!fixture) throw new ArticleNotFoundError(title);
+    return { fixture, redirects: resolved.redirects };
+  }
+
+  // Fixtures have a single revision, so `at` changes nothing
+  async getArticle(title: string): Promise<RawArticle> {
+    const { fixture, redirects } = await this.resolveFixture(title);
+    return {
+      title: fixture.title,
+      redirects,
+      html: fixture.html,
+      links: fixture.links,
+      languageLinks: fixture.languageLinks,
+    };
+  }
+
+  async getLinks(title: string): Promise<string[]> {
+    const { fixture } = await this.resolveFixture(title);
+    const links = new Set<string>();
+    for (const link of fixture.links) {
+      const resolved = await this.resolveTitle(link);
+      if (resolved && resolved.namespace === 0) links.add(resolved.title);
+    }
+    return Array.from(links);
+  }
+
+  async getBacklinks(title: string, limit: number): Promise<string[]> {
+    const resolved = await this.resolveTitle(title);
+    if (!resolved) throw new ArticleNotFoundError(title);
+
+    const backlinks = (await this.loadBacklinks()).get(resolved.title) || [];
+    return backlinks.slice(0, limit);
+  }
+
+  // Canonical title -> articles linking to it, built once on first use so
+  // large imported snapshots don't rescan every fixture per lookup
+  private loadBacklinks(): Promise<Map<string, string[]>> {
+    if (!this.backlinks) {
+      this.backlinks = this.buildBacklinks();
+    }
+    return this.backlinks;
+  }
+
+  private async buildBacklinks(): Promise<Map<string, string[]>> {
+    const index = new Map<string, string[]>();
+    for (const fixture of Array.from((await this.load()).values())) {
+      if (fixture.redirect || fixture.namespace !== 0) continue;
+      for (const link of await this.getLinks(fixture.title)) {
+        const linking = index.get(link);
+        if (linking) linking.push(fixture.title);
+        else index.set(link, [fixture.title]);
+      }
+    }
+    return index;
+  }
+
+  async getRandomTitles(count: number): Promise<string[]> {
+    const articles = Array.from((await this.load()).values())
+      .filter(fixture => !fixture.redirect && fixture.namespace === 0 && !fixture.isDisambiguation)
+      .map(fixture => fixture.title);
+
+    const picked: string[] = [];
+    while (picked.length < count && articles.length > 0) {
+      const index = Math.floor(Math.random() * articles.length);
+      picked.push(articles.splice(index, 1)[0]);
+    }
+    return picked;
+  }
+
+  async getPageInfo(titles: string[]): Promise<PageInfo[]> {
+    const info: PageInfo[] = [];
+    for (const title of titles) {
+      const fixture = await this.lookup(title);
+      if (!fixture) continue;
+      info.push({
+        title: fixture.title,
+        length: Buffer.byteLength(fixture.html),
+        isDisambiguation: fixture.isDisambiguation,
+      });
+    }
+    return info;
+  }
+
+  async findCategories(titles: string[], categories: string[]): Promise<Map<string, string[]>> {
+    const found = new Map<string, string[]>();
+    for (const title of titles) {
+      const fixture = await this.lookup(title);
+      const matches = fixture?.categories.filter(category => categories.includes(category)) || [];
+      if (fixture && matches.length > 0) found.set(fixture.title, matches);
+    }
+    return found;
+  }
+
+  async searchTitles(prefix: string, limit: number): Promise<TitleMatch[]> {
+    const needle = toTitleKey(prefix).toLowerCase();
+    const matches = new Map<string, TitleMatch>();
+
+    const fixtures = Array.from((await this.load()).values())
+      .filter(fixture => fixture.namespace === 0 && fixture.title.toLowerCase().startsWith(needle))
+      .sort((a, b) => a.title.localeCompare(b.title));
+
+    for (const fixture of fixtures) {
+      const resolved = await this.resolveTitle(fixture.title);
+      const target = resolved && (await this.lookup(resolved.title));
+      if (!target || matches.has(target.title)) continue;
+      matches.set(target.title, { title: target.title, description: target.description });
+      if (matches.size >= limit) break;
+    }
+
+    return Array.from(matches.values());
+  }
+}
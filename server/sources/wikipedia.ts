@@ -0,0 +1,338 @@
+import {
+  ArticleNotFoundError,
+  toTitleKey,
+  type ArticleSource,
+  type PageInfo,
+  type RawArticle,
+  type ResolvedTitle,
+  type SiteInfo,
+  type TitleMatch,
+} from "../article-source";
+
+// The parts of action API responses this source reads. Which fields are
+// present depends on the request, hence all the optional ones. Flags such as
+// `missing` are empty strings when set.
+interface ApiRedirect {
+  from: string;
+  to: string;
+}
+
+interface ApiPage {
+  title: string;
+  ns: number;
+  missing?: string;
+  invalid?: string;
+  length?: number;
+  // Rank in prefix-search results
+  index?: number;
+  description?: string;
+  pageprops?: { disambiguation?: string };
+  revisions?: { revid: number }[];
+  categories?: { title: string }[];
+}
+
+interface ApiResponse {
+  error?: { code: string; info?: string };
+  continue?: Record<string, string>;
+  parse?: {
+    title: string;
+    revid?: number;
+    text: { "*": string };
+    redirects?: ApiRedirect[];
+    links?: { ns: number; "*": string }[];
+    langlinks?: { lang: string; autonym?: string; "*": string }[];
+  };
+  query?: {
+    general?: { articlepath: string };
+    namespaces?: Record<string, { id: number; "*"?: string; canonical?: string }>;
+    namespacealiases?: { id: number; "*": string }[];
+    pages?: Record<string, ApiPage>;
+    redirects?: ApiRedirect[];
+    backlinks?: { title: string; redirect?: string; redirlinks?: { title: string }[] }[];
+    random?: { title: string }[];
+    search?: { title: string }[];
+    searchinfo?: { suggestion?: string };
+  };
+}
+
+function pagesOf(data: ApiResponse): ApiPage[] {
+  return Object.values(data.query?.pages ?? {});
+}
+
+// Any MediaWiki site through its action API; Wikipedia is just the default
+export class WikipediaArticleSource implements ArticleSource {
+  readonly name: string;
+
+  constructor(private apiUrl: string) {
+    const url = new URL(apiUrl);
+    this.name = `${url.host}${url.pathname}`.replace(/[^a-zA-Z0-9.-]+/g, "_");
+  }
+
+  private async query(params: Record<string, string>): Promise<ApiResponse> {
+    const search = new URLSearchParams({ format: "json", ...params });
+    const response = await fetch(`${this.apiUrl}?${search}`);
+    if (!response.ok) {
+      throw new Error(`Wikipedia API responded with ${response.status}`);
+    }
+    return (await response.json()) as ApiResponse;
+  }
+
+  async getSiteInfo(): Promise<SiteInfo> {
+    const data = await this.query({
+      action: "query",
+      meta: "siteinfo",
+      siprop: "general|namespaces|namespacealiases",
+    });
+    const general = data.query?.general;
+    if (!general) {
+      throw new Error(`${this.apiUrl} did not return site info`);
+    }
+
+    const prefixes = new Set<string>();
+    const add = (name?: string) => {
+      if (name) prefixes.add(name.toLowerCase().replace(/ /g, "_"));
+    };
+    for (const namespace of Object.values(data.query?.namespaces ?? {})) {
+      if (namespace.id === 0) continue;
+      add(namespace["*"]);
+      add(namespace.canonical);
+    }
+    for (const alias of data.query?.namespacealiases || []) {
+      if (alias.id !== 0) add(alias["*"]);
+    }
+
+    return { articlePath: general.articlepath, namespacePrefixes: Array.from(prefixes) };
+  }
+
+  // Id of the revision of `title` (after redirects) that was current at
+  // `at`, with the redirects followed. Redirects are resolved as they are
+  // now; null when the page did not exist yet.
+  private async revisionAt(title: string, at: Date): Promise<{ revisionId: number; redirects: string[] } | null> {
+    const data = await this.query({
+      action: "query",
+      prop: "revisions",
+      titles: title,
+      redirects: "true",
+      rvprop: "ids",
+      rvlimit: "1",
+      rvdir: "older",
+      rvstart: at.toISOString(),
+    });
+
+    const page = pagesOf(data)[0];
+    const revisionId = page?.revisions?.[0]?.revid;
+    if (!revisionId) return null;
+    return {
+      revisionId,
+      redirects: (data.query?.redirects || []).map(r => toTitleKey(r.from)),
+    };
+  }
+
+  async getArticle(title: string, at?: Date): Promise<RawArticle> {
+    const pinned = at ? await this.revisionAt(title, at) : null;
+    const data = await this.query({
+      action: "parse",
+      ...(pinned ? { oldid: pinned.revisionId.toString() } : { page: title, redirects: "true" }),
+      prop: "text|links|langlinks",
+      disableeditsection: "true",
+    });
+
+    if (data.error) {
+      if (data.error.code === "missingtitle" || data.error.code === "invalidtitle") {
+        throw new ArticleNotFoundError(title, data.error.info);
+      }
+      throw new Error(data.error.info || "Article not found");
+    }
+
+    const parse = data.parse;
+    if (!parse) throw new Error(`${this.apiUrl} did not return a parsed page`);
+    return {
+      title: toTitleKey(parse.title),
+      redirects: pinned ? pinned.redirects : (parse.redirects || []).map(r => toTitleKey(r.from)),
+      html: parse.text["*"],
+      links: (parse.links || []).filter(link => link.ns === 0).map(link => toTitleKey(link["*"])),
+      languageLinks: (parse.langlinks || []).map(link => ({
+        site: link.lang,
+        title: toTitleKey(link["*"]),
+        label: link.autonym,
+      })),
+      revisionId: parse.revid,
+    };
+  }
+
+  async getLinks(title: string): Promise<string[]> {
+    const links = new Set<string>();
+    let cont: Record<string, string> = {};
+
+    // As a generator, links come back as pages, so redirects between them are
+    // resolved and red links are marked missing
+    do {
+      const data = await this.query({
+        action: "query",
+        generator: "links",
+        titles: title,
+        gplnamespace: "0",
+        gpllimit: "max",
+        redirects: "true",
+        ...cont,
+      });
+
+      for (const page of pagesOf(data)) {
+        if (page.missing === undefined && page.ns === 0) links.add(toTitleKey(page.title));
+      }
+      cont = data.continue || {};
+    } while (cont.gplcontinue);
+
+    return Array.from(links);
+  }
+
+  async getBacklinks(title: string, limit: number): Promise<string[]> {
+    const backlinks = new Set<string>();
+    let cont: Record<string, string> = {};
+
+    // `blredirect` also lists pages that link through a redirect to `title`
+    do {
+      const data = await this.query({
+        action: "query",
+        list: "backlinks",
+        bltitle: title,
+        blnamespace: "0",
+        bllimit: "max",
+        blredirect: "true",
+        ...cont,
+      });
+
+      for (const backlink of data.query?.backlinks || []) {
+        if (backlink.redirect === undefined) backlinks.add(toTitleKey(backlink.title));
+        for (const viaRedirect of backlink.redirlinks || []) {
+          backlinks.add(toTitleKey(viaRedirect.title));
+        }
+      }
+      cont = data.continue || {};
+    } while (cont.blcontinue && backlinks.size < limit);
+
+    return Array.from(backlinks).slice(0, limit);
+  }
+
+  async getRandomTitles(count: number): Promise<string[]> {
+    const data = await this.query({
+      action: "query",
+      list: "random",
+      rnnamespace: "0",
+      rnlimit: count.toString(),
+    });
+
+    return (data.query?.random || []).map(article => toTitleKey(article.title));
+  }
+
+  async getPageInfo(titles: string[]): Promise<PageInfo[]> {
+    const info: PageInfo[] = [];
+    // The API accepts at most 50 titles per request
+    for (let i = 0; i < titles.length; i += 50) {
+      const data = await this.query({
+        action: "query",
+        titles: titles.slice(i, i + 50).join("|"),
+        prop: "info|pageprops",
+        ppprop: "disambiguation",
+      });
+
+      for (const page of pagesOf(data)) {
+        if (page.missing !== undefined || page.invalid !== undefined) continue;
+        info.push({
+          title: toTitleKey(page.title),
+          length: page.length ?? 0,
+          isDisambiguation: page.pageprops?.disambiguation !== undefined,
+        });
+      }
+    }
+    return info;
+  }
+
+  async findCategories(titles: string[], categories: string[]): Promise<Map<string, string[]>> {
+    const found = new Map<string, string[]>();
+    // Both the titles and the categories to test are capped at 50 per request
+    for (let i = 0; i < titles.length; i += 50) {
+      for (let j = 0; j < categories.length; j += 50) {
+        let cont: Record<string, string> = {};
+        do {
+          const data = await this.query({
+            action: "query",
+            titles: titles.slice(i, i + 50).join("|"),
+            prop: "categories",
+            clcategories: categories.slice(j, j + 50).map(name => `Category:${name}`).join("|"),
+            cllimit: "max",
+            ...cont,
+          });
+
+          for (const page of pagesOf(data)) {
+            const title = toTitleKey(page.title);
+            for (const category of page.categories || []) {
+              const name = toTitleKey(category.title.slice(category.title.indexOf(":") + 1));
+              found.set(title, [...(found.get(title) || []), name]);
+            }
+          }
+          cont = data.continue || {};
+        } while (cont.clcontinue);
+      }
+    }
+    return found;
+  }
+
+  async resolveTitle(title: string): Promise<ResolvedTitle | null> {
+    const data = await this.query({
+      action: "query",
+      titles: title,
+      redirects: "true",
+      prop: "pageprops",
+      ppprop: "disambiguation",
+    });
+
+    const page = pagesOf(data)[0];
+    if (!page || page.missing !== undefined || page.invalid !== undefined) return null;
+
+    const redirects = (data.query?.redirects || []).map(r => toTitleKey(r.from));
+    return {
+      title: toTitleKey(page.title),
+      redirects,
+      namespace: page.ns,
+      isDisambiguation: page.pageprops?.disambiguation !== undefined,
+    };
+  }
+
+  async suggestTitles(query: string, limit: number): Promise<string[]> {
+    const data = await this.query({
+      action: "query",
+      list: "search",
+      srsearch: query.replace(/_/g, " "),
+      srnamespace: "0",
+      srlimit: limit.toString(),
+      srinfo: "suggestion",
+    });
+
+    const titles = (data.query?.search || []).map(r => toTitleKey(r.title));
+    const suggestion = data.query?.searchinfo?.suggestion;
+    if (suggestion) {
+      const resolved = await this.resolveTitle(suggestion);
+      if (resolved && !titles.includes(resolved.title)) titles.unshift(resolved.title);
+    }
+    return titles.slice(0, limit);
+  }
+
+  async searchTitles(prefix: string, limit: number): Promise<TitleMatch[]> {
+    const data = await this.query({
+      action: "query",
+      generator: "prefixsearch",
+      gpssearch: prefix.replace(/_/g, " "),
+      gpsnamespace: "0",
+      gpslimit: limit.toString(),
+      prop: "description",
+      redirects: "true",
+    });
+
+    // Several redirects can fold into the same page, which the API then
+    // returns once; `index` keeps the prefix-search ranking
+    return pagesOf(data)
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(page => ({ title: toTitleKey(page.title), description: page.description }));
+  }
+}
@@ -1,11 +1,436 @@
-// Storage interface for the WikiGame
-// Since this game is stateless and uses Wikipedia API directly,
-// no persistent storage is needed for this MVP
+import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gte, inArray, isNull } from "drizzle-orm";
+import {
+  dailyPlays,
+  games,
+  moves,
+  puzzles,
+  results,
+  rooms,
+  users,
+  type DailyPlay,
+  type Game,
+  type GameResult,
+  type GameRules,
+  type GameStatus,
+  type InsertGame,
+  type InsertGameResult,
+  type InsertMoveRecord,
+  type InsertPuzzle,
+  type InsertRoom,
+  type InsertUser,
+  type MoveRecord,
+  type Puzzle,
+  type Room,
+  type User,
+} from "@shared/schema";
+import { db, type Database } from "./db";
 
-export interface IStorage {}
+export class UsernameTakenError extends Error {
+  status = 409;
+
+  constructor(public username: string) {
+    super(`The username "${username}" is taken`);
+    this.name = "UsernameTakenError";
+  }
+}
+
+export type NewUser = Omit<InsertUser, "id" | "createdAt">;
+
+// Results on one pair that are compared with each other
+export interface ResultFilter {
+  site: string;
+  targetSite: string;
+  startArticle: string;
+  targetArticle: string;
+  rulesKey: string;
+  // Only results finished at or after this time
+  since?: Date;
+  // Results of that day's daily challenge; without it, daily results are
+  // left out
+  puzzleDate?: string;
+}
+
+// A daily play with the outcome of its game, if the game was stored
+export type DailyPlayOutcome = DailyPlay & { status?: GameStatus };
+
+// Rules in a canonical form, so equal rules give equal keys whatever the
+// order their fields were set in
+export function rulesKey(rules: GameRules): string {
+  return JSON.stringify(
+    Object.keys(rules)
+      .sort()
+      .map(key => [key, rules[key as keyof GameRules]]),
+  );
+}
+
+// Records that outlive a game: in Postgres when DATABASE_URL is set,
+// otherwise in memory for the life of the process
+export interface IStorage {
+  getUser(id: string): Promise<User | undefined>;
+  // `username` is compared lowercased, as accounts store it
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: NewUser): Promise<User>;
+  updateUser(id: string, changes: Partial<NewUser>): Promise<User | undefined>;
+
+  createGame(game: InsertGame): Promise<Game>;
+  getGame(id: string): Promise<Game | undefined>;
+  updateGame(id: string, changes: Partial<Omit<InsertGame, "id">>): Promise<Game | undefined>;
+  // A player's games, newest first
+  listGames(userId: string, limit?: number): Promise<Game[]>;
+
+  addMove(move: InsertMoveRecord): Promise<void>;
+  // In the order they were played
+  listMoves(gameId: string): Promise<MoveRecord[]>;
+
+  // Creates the room or replaces its settings
+  saveRoom(room: InsertRoom): Promise<Room>;
+  getRoom(id: string): Promise<Room | undefined>;
+  deleteRoom(id: string): Promise<void>;
+
+  addResult(result: InsertGameResult): Promise<GameResult>;
+  listResults(filter: ResultFilter): Promise<GameResult[]>;
+
+  getPuzzle(date: string): Promise<Puzzle | undefined>;
+  // The first puzzle saved for a date stays; later ones get it back instead
+  createPuzzle(puzzle: InsertPuzzle): Promise<Puzzle>;
+
+  // An earlier play of the day's puzzle by any of `playerKeys`
+  findDailyPlay(date: string, playerKeys: string[]): Promise<DailyPlay | undefined>;
+  // Records that `playerKeys` played the day's puzzle in `gameId`. False if
+  // any of them had already played it.
+  claimDailyPlay(date: string, playerKeys: string[], gameId: string): Promise<boolean>;
+  // Undoes a claim whose game could not be started
+  releaseDailyPlay(date: string, gameId: string): Promise<void>;
+  // Every daily puzzle any of `playerKeys` played, newest first
+  listDailyPlays(playerKeys: string[]): Promise<DailyPlayOutcome[]>;
+}
 
 export class MemStorage implements IStorage {
-  constructor() {}
+  private users = new Map<string, User>();
+  private games = new Map<string, Game>();
+  private moves = new Map<string, MoveRecord[]>();
+  private rooms = new Map<string, Room>();
+  private results: GameResult[] = [];
+  private puzzles = new Map<string, Puzzle>();
+  // Keyed by "<date> <player key>"
+  private dailyPlays = new Map<string, DailyPlay>();
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const name = username.toLowerCase();
+    return Array.from(this.users.values()).find(user => user.username === name);
+  }
+
+  private async checkUsername(username: string | null | undefined, id?: string): Promise<void> {
+    if (!username) return;
+    const owner = await this.getUserByUsername(username);
+    if (owner && owner.id !== id) throw new UsernameTakenError(username);
+  }
+
+  async createUser(user: NewUser): Promise<User> {
+    await this.checkUsername(user.username);
+    const created: User = {
+      id: randomUUID(),
+      username: user.username ?? null,
+      passwordHash: user.passwordHash ?? null,
+      displayName: user.displayName,
+      createdAt: new Date(),
+    };
+    this.users.set(created.id, created);
+    return created;
+  }
+
+  async updateUser(id: string, changes: Partial<NewUser>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    await this.checkUsername(changes.username, id);
+    const updated = { ...user, ...changes };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async createGame(game: InsertGame): Promise<Game> {
+    const created: Game = { userId: null, roomId: null, finishedAt: null, ...game, puzzleDate: game.puzzleDate ?? null };
+    this.games.set(created.id, created);
+    return created;
+  }
+
+  async getGame(id: string): Promise<Game | undefined> {
+    return this.games.get(id);
+  }
+
+  async updateGame(id: string, changes: Partial<Omit<InsertGame, "id">>): Promise<Game | undefined> {
+    const game = this.games.get(id);
+    if (!game) return undefined;
+    const updated = { ...game, ...changes };
+    this.games.set(id, updated);
+    return updated;
+  }
+
+  async listGames(userId: string, limit = 100): Promise<Game[]> {
+    return Array.from(this.games.values())
+      .filter(game => game.userId === userId)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .slice(0, limit);
+  }
+
+  async addMove(move: InsertMoveRecord): Promise<void> {
+    const list = this.moves.get(move.gameId) ?? [];
+    list.push(move);
+    list.sort((a, b) => a.index - b.index);
+    this.moves.set(move.gameId, list);
+  }
+
+  async listMoves(gameId: string): Promise<MoveRecord[]> {
+    return (this.moves.get(gameId) ?? []).slice();
+  }
+
+  async saveRoom(room: InsertRoom): Promise<Room> {
+    const saved: Room = {
+      contentPolicy: null,
+      createdAt: this.rooms.get(room.id)?.createdAt ?? new Date(),
+      ...room,
+    };
+    this.rooms.set(saved.id, saved);
+    return saved;
+  }
+
+  async getRoom(id: string): Promise<Room | undefined> {
+    return this.rooms.get(id);
+  }
+
+  async deleteRoom(id: string): Promise<void> {
+    this.rooms.delete(id);
+  }
+
+  async addResult(result: InsertGameResult): Promise<GameResult> {
+    const created: GameResult = {
+      userId: null,
+      ...result,
+      puzzleDate: result.puzzleDate ?? null,
+      id: this.results.length + 1,
+    };
+    this.results.push(created);
+    return created;
+  }
+
+  async listResults(filter: ResultFilter): Promise<GameResult[]> {
+    return this.results.filter(
+      result =>
+        result.site === filter.site &&
+        result.targetSite === filter.targetSite &&
+        result.startArticle === filter.startArticle &&
+        result.targetArticle === filter.targetArticle &&
+        result.rulesKey === filter.rulesKey &&
+        result.puzzleDate === (filter.puzzleDate ?? null) &&
+        (!filter.since || result.finishedAt >= filter.since),
+    );
+  }
+
+  async getPuzzle(date: string): Promise<Puzzle | undefined> {
+    return this.puzzles.get(date);
+  }
+
+  async createPuzzle(puzzle: InsertPuzzle): Promise<Puzzle> {
+    const existing = this.puzzles.get(puzzle.date);
+    if (existing) return existing;
+    const created: Puzzle = { createdAt: new Date(), ...puzzle };
+    this.puzzles.set(created.date, created);
+    return created;
+  }
+
+  // Synchronous, so a claim checks and records with nothing in between
+  private dailyPlayOf(date: string, playerKeys: string[]): DailyPlay | undefined {
+    for (const playerKey of playerKeys) {
+      const play = this.dailyPlays.get(`${date} ${playerKey}`);
+      if (play) return play;
+    }
+    return undefined;
+  }
+
+  async findDailyPlay(date: string, playerKeys: string[]): Promise<DailyPlay | undefined> {
+    return this.dailyPlayOf(date, playerKeys);
+  }
+
+  async claimDailyPlay(date: string, playerKeys: string[], gameId: string): Promise<boolean> {
+    if (this.dailyPlayOf(date, playerKeys)) return false;
+    for (const playerKey of playerKeys) {
+      this.dailyPlays.set(`${date} ${playerKey}`, { date, playerKey, gameId });
+    }
+    return true;
+  }
+
+  async releaseDailyPlay(date: string, gameId: string): Promise<void> {
+    for (const [key, play] of Array.from(this.dailyPlays.entries())) {
+      if (play.date === date && play.gameId === gameId) this.dailyPlays.delete(key);
+    }
+  }
+
+  async listDailyPlays(playerKeys: string[]): Promise<DailyPlayOutcome[]> {
+    return Array.from(this.dailyPlays.values())
+      .filter(play => playerKeys.includes(play.playerKey))
+      .map(play => ({ ...play, status: this.games.get(play.gameId)?.status }))
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+}
+
+// Postgres reports unique violations with this SQLSTATE
+const UNIQUE_VIOLATION = "23505";
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === UNIQUE_VIOLATION;
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username.toLowerCase()));
+    return user;
+  }
+
+  async createUser(user: NewUser): Promise<User> {
+    try {
+      const [created] = await this.db.insert(users).values({ ...user, id: randomUUID() }).returning();
+      return created;
+    } catch (error) {
+      if (isUniqueViolation(error)) throw new UsernameTakenError(user.username!);
+      throw error;
+    }
+  }
+
+  async updateUser(id: string, changes: Partial<NewUser>): Promise<User | undefined> {
+    try {
+      const [updated] = await this.db.update(users).set(changes).where(eq(users.id, id)).returning();
+      return updated;
+    } catch (error) {
+      if (isUniqueViolation(error)) throw new UsernameTakenError(changes.username!);
+      throw error;
+    }
+  }
+
+  async createGame(game: InsertGame): Promise<Game> {
+    const [created] = await this.db.insert(games).values(game).returning();
+    return created;
+  }
+
+  async getGame(id: string): Promise<Game | undefined> {
+    const [game] = await this.db.select().from(games).where(eq(games.id, id));
+    return game;
+  }
+
+  async updateGame(id: string, changes: Partial<Omit<InsertGame, "id">>): Promise<Game | undefined> {
+    const [updated] = await this.db.update(games).set(changes).where(eq(games.id, id)).returning();
+    return updated;
+  }
+
+  async listGames(userId: string, limit = 100): Promise<Game[]> {
+    return this.db.select().from(games).where(eq(games.userId, userId)).orderBy(desc(games.startedAt)).limit(limit);
+  }
+
+  async addMove(move: InsertMoveRecord): Promise<void> {
+    await this.db.insert(moves).values(move);
+  }
+
+  async listMoves(gameId: string): Promise<MoveRecord[]> {
+    return this.db.select().from(moves).where(eq(moves.gameId, gameId)).orderBy(asc(moves.index));
+  }
+
+  async saveRoom(room: InsertRoom): Promise<Room> {
+    const [saved] = await this.db
+      .insert(rooms)
+      .values(room)
+      .onConflictDoUpdate({ target: rooms.id, set: { hostId: room.hostId, contentPolicy: room.contentPolicy ?? null } })
+      .returning();
+    return saved;
+  }
+
+  async getRoom(id: string): Promise<Room | undefined> {
+    const [room] = await this.db.select().from(rooms).where(eq(rooms.id, id));
+    return room;
+  }
+
+  async deleteRoom(id: string): Promise<void> {
+    await this.db.delete(rooms).where(eq(rooms.id, id));
+  }
+
+  async addResult(result: InsertGameResult): Promise<GameResult> {
+    const [created] = await this.db.insert(results).values(result).returning();
+    return created;
+  }
+
+  async listResults(filter: ResultFilter): Promise<GameResult[]> {
+    return this.db
+      .select()
+      .from(results)
+      .where(
+        and(
+          eq(results.site, filter.site),
+          eq(results.targetSite, filter.targetSite),
+          eq(results.startArticle, filter.startArticle),
+          eq(results.targetArticle, filter.targetArticle),
+          eq(results.rulesKey, filter.rulesKey),
+          filter.puzzleDate ? eq(results.puzzleDate, filter.puzzleDate) : isNull(results.puzzleDate),
+          filter.since ? gte(results.finishedAt, filter.since) : undefined,
+        ),
+      );
+  }
+
+  async getPuzzle(date: string): Promise<Puzzle | undefined> {
+    const [puzzle] = await this.db.select().from(puzzles).where(eq(puzzles.date, date));
+    return puzzle;
+  }
+
+  async createPuzzle(puzzle: InsertPuzzle): Promise<Puzzle> {
+    const [created] = await this.db.insert(puzzles).values(puzzle).onConflictDoNothing().returning();
+    return created ?? (await this.getPuzzle(puzzle.date))!;
+  }
+
+  async findDailyPlay(date: string, playerKeys: string[]): Promise<DailyPlay | undefined> {
+    const [play] = await this.db
+      .select()
+      .from(dailyPlays)
+      .where(and(eq(dailyPlays.date, date), inArray(dailyPlays.playerKey, playerKeys)))
+      .limit(1);
+    return play;
+  }
+
+  async claimDailyPlay(date: string, playerKeys: string[], gameId: string): Promise<boolean> {
+    try {
+      // A play claimed meanwhile by one of the keys fails the insert
+      const claimed = await this.db
+        .insert(dailyPlays)
+        .values(playerKeys.map(playerKey => ({ date, playerKey, gameId })))
+        .returning();
+      return claimed.length === playerKeys.length;
+    } catch (error) {
+      if (isUniqueViolation(error)) return false;
+      throw error;
+    }
+  }
+
+  async releaseDailyPlay(date: string, gameId: string): Promise<void> {
+    await this.db.delete(dailyPlays).where(and(eq(dailyPlays.date, date), eq(dailyPlays.gameId, gameId)));
+  }
+
+  async listDailyPlays(playerKeys: string[]): Promise<DailyPlayOutcome[]> {
+    const rows = await this.db
+      .select({ date: dailyPlays.date, playerKey: dailyPlays.playerKey, gameId: dailyPlays.gameId, status: games.status })
+      .from(dailyPlays)
+      .leftJoin(games, eq(games.id, dailyPlays.gameId))
+      .where(inArray(dailyPlays.playerKey, playerKeys))
+      .orderBy(desc(dailyPlays.date));
+    return rows.map(row => ({ ...row, status: row.status ?? undefined }));
+  }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = db ? new DatabaseStorage(db) : new MemStorage();
@@ -1,28 +1,609 @@
 import { z } from "zod";
+import {
+  pgTable,
+  serial,
+  text,
+  integer,
+  timestamp,
+  jsonb,
+  primaryKey,
+  index,
+  type AnyPgColumn,
+} from "drizzle-orm/pg-core";
+
+// Link graph, filled as articles are fetched (or imported from a dump).
+// A page known only as a link target has no fetchedAt yet.
+export const pages = pgTable("pages", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull().unique(),
+  redirectTo: integer("redirect_to").references((): AnyPgColumn => pages.id, { onDelete: "set null" }),
+  fetchedAt: timestamp("fetched_at"),
+});
+
+export type Page = typeof pages.$inferSelect;
+
+export const pageLinks = pgTable(
+  "page_links",
+  {
+    fromId: integer("from_id").notNull().references(() => pages.id, { onDelete: "cascade" }),
+    toId: integer("to_id").notNull().references(() => pages.id, { onDelete: "cascade" }),
+  },
+  (table) => [
+    primaryKey({ columns: [table.fromId, table.toId] }),
+    index("page_links_to_id_idx").on(table.toId),
+  ],
+);
+
+// Accounts. A guest is an account without credentials, so registering as a
+// guest keeps the id, and with it everything recorded under it.
+export const users = pgTable("users", {
+  id: text("id").primaryKey(),
+  // Lowercased; null for guests
+  username: text("username").unique(),
+  passwordHash: text("password_hash"),
+  displayName: text("display_name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type User = typeof users.$inferSelect;
+export type InsertUser = typeof users.$inferInsert;
+
+// Games as played, one row per session. Mode and status are the
+// gameModeSchema and gameStatusSchema values.
+export const games = pgTable(
+  "games",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id").references(() => users.id, { onDelete: "set null" }),
+    roomId: text("room_id"),
+    mode: text("mode").$type<GameMode>().notNull(),
+    site: text("site").notNull(),
+    targetSite: text("target_site").notNull(),
+    startArticle: text("start_article").notNull(),
+    targetArticle: text("target_article").notNull(),
+    pinnedAt: timestamp("pinned_at").notNull(),
+    rules: jsonb("rules").$type<GameRules>().notNull(),
+    status: text("status").$type<GameStatus>().notNull(),
+    startedAt: timestamp("started_at").notNull(),
+    finishedAt: timestamp("finished_at"),
+    // Day of the daily challenge the game was played for
+    puzzleDate: text("puzzle_date"),
+  },
+  (table) => [index("games_user_id_idx").on(table.userId, table.startedAt)],
+);
+
+export type Game = typeof games.$inferSelect;
+export type InsertGame = typeof games.$inferInsert;
+
+// The clicks of a game in order; `index` 1 is the first click
+export const moves = pgTable(
+  "moves",
+  {
+    gameId: text("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+    index: integer("index").notNull(),
+    site: text("site").notNull(),
+    title: text("title").notNull(),
+    at: timestamp("at").notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.gameId, table.index] })],
+);
+
+export type MoveRecord = typeof moves.$inferSelect;
+export type InsertMoveRecord = typeof moves.$inferInsert;
+
+// Multiplayer rooms and the settings their host chose
+export const rooms = pgTable("rooms", {
+  id: text("id").primaryKey(),
+  hostId: text("host_id").notNull(),
+  contentPolicy: jsonb("content_policy").$type<ContentPolicySettings>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type Room = typeof rooms.$inferSelect;
+export type InsertRoom = typeof rooms.$inferInsert;
+
+// Won games, ranked against others on the same pair under the same rules.
+// `rulesKey` is the rules in canonical form (see rulesKey in server/storage).
+export const results = pgTable(
+  "results",
+  {
+    id: serial("id").primaryKey(),
+    gameId: text("game_id").notNull().unique().references(() => games.id, { onDelete: "cascade" }),
+    userId: text("user_id").references(() => users.id, { onDelete: "set null" }),
+    site: text("site").notNull(),
+    targetSite: text("target_site").notNull(),
+    startArticle: text("start_article").notNull(),
+    targetArticle: text("target_article").notNull(),
+    rulesKey: text("rules_key").notNull(),
+    clicks: integer("clicks").notNull(),
+    durationMs: integer("duration_ms").notNull(),
+    finishedAt: timestamp("finished_at").notNull(),
+    // Daily challenge results rank on their own board, never on the pair's
+    puzzleDate: text("puzzle_date"),
+  },
+  (table) => [
+    index("results_pair_idx").on(
+      table.site,
+      table.targetSite,
+      table.startArticle,
+      table.targetArticle,
+      table.rulesKey,
+      table.finishedAt,
+    ),
+    index("results_puzzle_date_idx").on(table.puzzleDate),
+  ],
+);
+
+export type GameResult = typeof results.$inferSelect;
+export type InsertGameResult = typeof results.$inferInsert;
+
+// Shared puzzles, one per day ("2024-05-01", UTC)
+export const puzzles = pgTable("puzzles", {
+  date: text("date").primaryKey(),
+  site: text("site").notNull(),
+  startArticle: text("start_article").notNull(),
+  targetArticle: text("target_article").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type Puzzle = typeof puzzles.$inferSelect;
+export type InsertPuzzle = typeof puzzles.$inferInsert;
+
+// Who has played which daily puzzle. A player is "user:<id>" or
+// "device:<id>"; a game claims both, so either one having played counts.
+// Plays are claimed before their game is stored, so `game_id` is not a
+// foreign key.
+export const dailyPlays = pgTable(
+  "daily_plays",
+  {
+    date: text("date").notNull(),
+    playerKey: text("player_key").notNull(),
+    gameId: text("game_id").notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.date, table.playerKey] }),
+    index("daily_plays_player_key_idx").on(table.playerKey),
+  ],
+);
+
+export type DailyPlay = typeof dailyPlays.$inferSelect;
+
+// The same topic in another language edition
+export const languageLinkSchema = z.object({
+  site: z.string(),
+  title: z.string(),
+  // Name of the language in that language ("Deutsch"), when the wiki says
+  label: z.string().optional(),
+});
+
+export type LanguageLink = z.infer<typeof languageLinkSchema>;
 
 export const articleSchema = z.object({
   title: z.string(),
+  // Redirects followed to reach `title`, starting with the requested one
+  redirects: z.array(z.string()),
   content: z.string(),
   links: z.array(z.string()),
+  languageLinks: z.array(languageLinkSchema),
+  // Revision served; absent for sources without page history
+  revisionId: z.number().optional(),
 });
 
 export type Article = z.infer<typeof articleSchema>;
 
+// An article visited during a game, with the edition it was read in
+export const pathStepSchema = z.object({
+  site: z.string(),
+  title: z.string(),
+  // Revision the player was shown, once the article has loaded
+  revisionId: z.number().optional(),
+});
+
+export type PathStep = z.infer<typeof pathStepSchema>;
+
+// Rules a session was created under; later config changes do not affect it
+export const gameRulesSchema = z.object({
+  timeLimitSeconds: z.number(),
+  // Whether articles the player has not reached may be read during the game
+  scoutingAllowed: z.boolean(),
+});
+
+export type GameRules = z.infer<typeof gameRulesSchema>;
+
 export const gameStateSchema = z.object({
+  // Server session the game is played in
+  id: z.string(),
+  // Editions of the start and target articles; they differ in a
+  // cross-language game
+  site: z.string(),
+  targetSite: z.string(),
   startArticle: z.string(),
   targetArticle: z.string(),
+  currentSite: z.string(),
   currentArticle: z.string(),
-  path: z.array(z.string()),
+  path: z.array(pathStepSchema),
   clicks: z.number(),
   startTime: z.number(),
+  rules: gameRulesSchema,
+  // Day of the daily challenge, for daily games
+  puzzleDate: z.string().optional(),
+  // Articles are read as they were at this time (ms since epoch), so every
+  // player sees the same revisions
+  pinnedAt: z.number(),
   isComplete: z.boolean(),
 });
 
 export type GameState = z.infer<typeof gameStateSchema>;
 
+export const difficultySchema = z.enum(["easy", "medium", "hard", "expert"]);
+
+export type Difficulty = z.infer<typeof difficultySchema>;
+
+// Content restrictions. A deployment sets a base policy and a room may add
+// to it; titles and categories are compared in underscore form.
+export const contentPolicySettingsSchema = z.object({
+  blockedTitles: z.array(z.string()).optional(),
+  // Direct category membership, without the "Category:" prefix
+  blockedCategories: z.array(z.string()).optional(),
+  // When set, only these articles may be used at all
+  allowlist: z.array(z.string()).optional(),
+  // Whether a restricted manual pick is refused or only flagged
+  enforcement: z.enum(["warn", "reject"]).optional(),
+});
+
+export type ContentPolicySettings = z.infer<typeof contentPolicySettingsSchema>;
+
+// Manual games pass both articles; random games may ask for a difficulty or
+// an explicit range of shortest-path distances, which takes precedence
+export const gameModeSchema = z.enum(["random", "manual", "multiplayer", "daily"]);
+
+export type GameMode = z.infer<typeof gameModeSchema>;
+
+export const newGameRequestSchema = z
+  .object({
+    startArticle: z.string().optional(),
+    targetArticle: z.string().optional(),
+    difficulty: difficultySchema.optional(),
+    minDistance: z.number().int().min(1).optional(),
+    maxDistance: z.number().int().min(1).optional(),
+    // Room whose content policy applies on top of the deployment's. Games
+    // of a round the room is playing share its pinned time.
+    roomId: z.string().optional(),
+    // Wikipedia language code or MediaWiki URL; the server's default if unset
+    site: z.string().optional(),
+    // Edition of the target article, for a cross-language game; `site` if unset
+    targetSite: z.string().optional(),
+    // Casual play: let the player read articles ahead of reaching them
+    scoutingAllowed: z.boolean().optional(),
+    // How the game shows in the player's history; "manual" when both
+    // articles were given, "random" otherwise. Daily games have their own
+    // endpoint, which ties them to the day's puzzle.
+    mode: gameModeSchema.optional(),
+    // Only pick the pair, answering with a PairResponse. Room hosts do this
+    // before a round; each player's game starts once the round does.
+    pairOnly: z.boolean().optional(),
+  })
+  .refine(
+    (request) => request.minDistance === undefined || request.maxDistance === undefined || request.minDistance <= request.maxDistance,
+    { message: "minDistance must not exceed maxDistance", path: ["minDistance"] },
+  )
+  .refine((request) => request.mode !== "daily", {
+    message: "Daily games are started through /api/daily/start",
+    path: ["mode"],
+  });
+
+export type NewGameRequest = z.infer<typeof newGameRequestSchema>;
+
 export const newGameResponseSchema = z.object({
+  // Session id for /api/game/:id
+  id: z.string(),
+  // Sent as X-Game-Token with the game's article requests
+  articleToken: z.string(),
+  // Server time the clock started, in ms since epoch
+  startedAt: z.number(),
+  rules: gameRulesSchema,
+  // Normalized ids of the wikis the start and target articles are on
+  site: z.string(),
+  targetSite: z.string(),
   startArticle: z.string(),
   targetArticle: z.string(),
+  // Time the game's articles are pinned to, in ms since epoch
+  pinnedAt: z.number(),
+  // Shortest-path distance, known when the pair was generated for a difficulty
+  distance: z.number().optional(),
+  // Restricted articles that were let through because enforcement is "warn"
+  warnings: z.array(z.string()).optional(),
+  // Day of the daily challenge, for daily games
+  puzzleDate: z.string().optional(),
 });
 
 export type NewGameResponse = z.infer<typeof newGameResponseSchema>;
+
+// Answer to a `pairOnly` new-game request
+export const pairResponseSchema = newGameResponseSchema.pick({
+  site: true,
+  targetSite: true,
+  startArticle: true,
+  targetArticle: true,
+  distance: true,
+  warnings: true,
+});
+
+export type PairResponse = z.infer<typeof pairResponseSchema>;
+
+// A click as the server recorded it, with the canonical title reached
+export const gameMoveSchema = pathStepSchema.extend({
+  // Server time of the click, in ms since epoch
+  at: z.number(),
+});
+
+export type GameMove = z.infer<typeof gameMoveSchema>;
+
+export const moveRequestSchema = z.object({
+  title: z.string().min(1),
+  // Edition the link leads to; the current one unless following a language link
+  site: z.string().optional(),
+});
+
+export type MoveRequest = z.infer<typeof moveRequestSchema>;
+
+export const moveRejectionReasonSchema = z.enum([
+  // The current article has no such link
+  "not_linked",
+  // A language link was followed in a game on a single wiki
+  "language_link_not_allowed",
+  // A claimed path does not begin at the start article
+  "wrong_start",
+  // A claimed path does not end at the target article
+  "target_not_reached",
+]);
+
+export type MoveRejectionReason = z.infer<typeof moveRejectionReasonSchema>;
+
+// Body of a 422 for a move the server refused
+export const moveErrorSchema = z.object({
+  error: z.string(),
+  reason: moveRejectionReasonSchema,
+});
+
+export type MoveError = z.infer<typeof moveErrorSchema>;
+
+// "abandoned" games were left unfinished: a new game or the menu was chosen
+// mid-game, or the server lost track of them
+export const gameStatusSchema = z.enum(["playing", "won", "lost", "abandoned"]);
+
+export type GameStatus = z.infer<typeof gameStatusSchema>;
+
+// A session as /api/game/:id reports it. The server keeps the clock and the
+// click count and decides the outcome.
+export const gameSessionSchema = z.object({
+  id: z.string(),
+  site: z.string(),
+  targetSite: z.string(),
+  startArticle: z.string(),
+  targetArticle: z.string(),
+  pinnedAt: z.number(),
+  startedAt: z.number(),
+  rules: gameRulesSchema,
+  moves: z.array(gameMoveSchema),
+  clicks: z.number(),
+  status: gameStatusSchema,
+  finishedAt: z.number().optional(),
+  timeLeftSeconds: z.number(),
+  // Fresh article token; tokens are short-lived, so clients swap in each new one
+  articleToken: z.string(),
+});
+
+export type GameSession = z.infer<typeof gameSessionSchema>;
+
+export const articleIssueSchema = z.object({
+  reason: z.enum(["missing", "not_article", "disambiguation", "blocked"]),
+  message: z.string(),
+  // Existing articles the player may have meant
+  suggestions: z.array(z.string()),
+});
+
+export type ArticleIssue = z.infer<typeof articleIssueSchema>;
+
+// Body of a 422 from /api/game/new when manual articles are unusable
+export const newGameErrorSchema = z.object({
+  error: z.string(),
+  fields: z.object({
+    startArticle: articleIssueSchema.optional(),
+    targetArticle: articleIssueSchema.optional(),
+  }),
+});
+
+export type NewGameError = z.infer<typeof newGameErrorSchema>;
+
+export const sitesResponseSchema = z.object({
+  defaultSite: z.string(),
+  // Whether games may name arbitrary MediaWiki URLs
+  allowCustom: z.boolean(),
+});
+
+export type SitesResponse = z.infer<typeof sitesResponseSchema>;
+
+export const titleMatchSchema = z.object({
+  title: z.string(),
+  description: z.string().optional(),
+});
+
+export type TitleMatch = z.infer<typeof titleMatchSchema>;
+
+function positiveIntParam(name: string) {
+  const message = `${name} must be a positive integer`;
+  return z.coerce.number({ invalid_type_error: message }).int(message).positive(message);
+}
+
+// Query of /api/path/shortest. Limits can only tighten the server's own.
+export const shortestPathQuerySchema = z.object({
+  from: z.string({ required_error: "Both from and to are required" }).min(1, "Both from and to are required"),
+  to: z.string({ required_error: "Both from and to are required" }).min(1, "Both from and to are required"),
+  site: z.string().optional(),
+  maxDepth: positiveIntParam("maxDepth").optional(),
+  maxNodes: positiveIntParam("maxNodes").optional(),
+});
+
+export type ShortestPathQuery = z.infer<typeof shortestPathQuerySchema>;
+
+export const shortestPathResultSchema = z.discriminatedUnion("status", [
+  z.object({
+    status: z.literal("found"),
+    from: z.string(),
+    to: z.string(),
+    // Number of clicks on an optimal route
+    distance: z.number(),
+    // Up to a configured number of optimal routes, each from `from` to `to`
+    paths: z.array(z.array(z.string())),
+    explored: z.number(),
+  }),
+  z.object({
+    status: z.literal("not_found"),
+    from: z.string(),
+    to: z.string(),
+    // "budget": gave up early; "exhausted": no route exists within maxDepth
+    reason: z.enum(["budget", "exhausted"]),
+    explored: z.number(),
+  }),
+]);
+
+export type ShortestPathResult = z.infer<typeof shortestPathResultSchema>;
+
+export const credentialsSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(3, "Usernames have at least 3 characters")
+    .max(32, "Usernames have at most 32 characters")
+    .regex(/^[A-Za-z0-9_.-]+$/, "Usernames may only use letters, digits, '.', '_' and '-'")
+    .transform(name => name.toLowerCase()),
+  password: z
+    .string()
+    .min(8, "Passwords have at least 8 characters")
+    .max(200, "Passwords have at most 200 characters"),
+});
+
+export type Credentials = z.infer<typeof credentialsSchema>;
+
+export const registerRequestSchema = credentialsSchema.extend({
+  displayName: z.string().trim().min(1).max(40).optional(),
+});
+
+export type RegisterRequest = z.infer<typeof registerRequestSchema>;
+
+// What /api/auth/user tells a client about its account
+export const publicUserSchema = z.object({
+  id: z.string(),
+  username: z.string().nullable(),
+  displayName: z.string(),
+  isGuest: z.boolean(),
+});
+
+export type PublicUser = z.infer<typeof publicUserSchema>;
+
+// A game in the player's history. `moves` carry the time of every click.
+export const historyEntrySchema = z.object({
+  id: z.string(),
+  mode: gameModeSchema,
+  status: gameStatusSchema,
+  site: z.string(),
+  targetSite: z.string(),
+  startArticle: z.string(),
+  targetArticle: z.string(),
+  rules: gameRulesSchema,
+  startedAt: z.number(),
+  finishedAt: z.number().nullable(),
+  moves: z.array(gameMoveSchema),
+});
+
+export type HistoryEntry = z.infer<typeof historyEntrySchema>;
+
+export const leaderboardSortSchema = z.enum([
+  // Fewest clicks, then fastest
+  "clicks",
+  // Fastest, then fewest clicks
+  "time",
+]);
+
+export type LeaderboardSort = z.infer<typeof leaderboardSortSchema>;
+
+// "week" starts on Monday and "day" at midnight, both UTC
+export const leaderboardPeriodSchema = z.enum(["all", "week", "day"]);
+
+export type LeaderboardPeriod = z.infer<typeof leaderboardPeriodSchema>;
+
+// Query of /api/leaderboard. Wins are only compared on the same pair under
+// the same rules; rules left out are the server's current defaults.
+export const leaderboardQuerySchema = z.object({
+  site: z.string().optional(),
+  targetSite: z.string().optional(),
+  start: z.string({ required_error: "start is required" }).min(1, "start is required"),
+  target: z.string({ required_error: "target is required" }).min(1, "target is required"),
+  timeLimitSeconds: z.coerce.number().int().positive().optional(),
+  scoutingAllowed: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  sort: leaderboardSortSchema.default("clicks"),
+  period: leaderboardPeriodSchema.default("all"),
+  // A game whose result counts as the caller's, for players without an account
+  game: z.string().optional(),
+});
+
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+
+export const leaderboardEntrySchema = z.object({
+  // Players with equal clicks and time share a rank
+  rank: z.number(),
+  name: z.string(),
+  clicks: z.number(),
+  durationMs: z.number(),
+  finishedAt: z.number(),
+  isYou: z.boolean(),
+});
+
+export type LeaderboardEntry = z.infer<typeof leaderboardEntrySchema>;
+
+export const leaderboardSchema = z.object({
+  entries: z.array(leaderboardEntrySchema),
+  // The caller's best result when it is not among `entries`
+  you: leaderboardEntrySchema.nullable(),
+  // Players ranked in this view
+  total: z.number(),
+});
+
+export type Leaderboard = z.infer<typeof leaderboardSchema>;
+
+// Consecutive UTC days with a daily challenge won
+export const dailyStreakSchema = z.object({
+  // Counts today once won, and is kept until tomorrow's puzzle is missed
+  current: z.number(),
+  best: z.number(),
+});
+
+export type DailyStreak = z.infer<typeof dailyStreakSchema>;
+
+// Today's daily challenge as /api/daily reports it to the caller
+export const dailyPuzzleSchema = z.object({
+  // UTC day, "2024-05-01"
+  date: z.string(),
+  site: z.string(),
+  startArticle: z.string(),
+  targetArticle: z.string(),
+  // When the next puzzle becomes available, in ms since epoch
+  nextPuzzleAt: z.number(),
+  // The caller's game on this puzzle, if their account or device played it
+  playedGameId: z.string().nullable(),
+  streak: dailyStreakSchema,
+});
+
+export type DailyPuzzle = z.infer<typeof dailyPuzzleSchema>;
+
+// Query of /api/daily/leaderboard; every daily game is played under the
+// server's default rules
+export const dailyLeaderboardQuerySchema = z.object({
+  // Defaults to today
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "date looks like 2024-05-01").optional(),
+  sort: leaderboardSortSchema.default("clicks"),
+  game: z.string().optional(),
+});
+
+export type DailyLeaderboardQuery = z.infer<typeof dailyLeaderboardQuerySchema>;
@@ -0,0 +1,22 @@
+// Wikipedia editions offered in the site picker. Any other language code
+// works too; MediaWiki URLs need ALLOW_CUSTOM_SITES on the server.
+export const SITE_PRESETS: { id: string; label: string }[] = [
+  { id: "en", label: "English" },
+  { id: "simple", label: "Simple English" },
+  { id: "de", label: "Deutsch" },
+  { id: "fr", label: "Français" },
+  { id: "es", label: "Español" },
+  { id: "it", label: "Italiano" },
+  { id: "nl", label: "Nederlands" },
+  { id: "pl", label: "Polski" },
+  { id: "pt", label: "Português" },
+  { id: "ru", label: "Русский" },
+  { id: "ja", label: "日本語" },
+  { id: "zh", label: "中文" },
+  { id: "sv", label: "Svenska" },
+  { id: "uk", label: "Українська" },
+];
+
+export function siteLabel(id: string): string {
+  return SITE_PRESETS.find(preset => preset.id === id)?.label ?? id.replace(/^https?:\/\//, "");
+}
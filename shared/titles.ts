@@ -0,0 +1,17 @@
+import type { PathStep } from "./schema";
+
+// Titles travel in underscore form ("United_States"). MediaWiki ignores the
+// case of the first letter, so "united_States" names the same page.
+export function normalizeTitle(title: string): string {
+  const key = title.trim().replace(/ /g, "_");
+  return key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+export function isSameTitle(a: string, b: string): boolean {
+  return normalizeTitle(a) === normalizeTitle(b);
+}
+
+// Same page on the same wiki; sites are compared by their normalized id
+export function isSameArticle(a: PathStep, b: PathStep): boolean {
+  return a.site === b.site && isSameTitle(a.title, b.title);
+}